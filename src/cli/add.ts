@@ -88,6 +88,6 @@ export function add(providerName?: string, options: AddOptions = {}): void {
 		console.log(`  npm install ${provider.peerDep}\n`);
 	}
 
-	console.log('Start the relay with:');
-	console.log(`  npx svelte-grab relay --provider=${providerName}\n`);
+	console.log('Start the relay with all configured providers:');
+	console.log('  npx svelte-grab relay\n');
 }
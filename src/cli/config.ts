@@ -7,6 +7,7 @@
 
 import { readFileSync, writeFileSync, existsSync } from 'fs';
 import { join } from 'path';
+import type { CommandProviderConfig } from '../relay/providers/command.js';
 
 // ============================================================
 // Types
@@ -18,7 +19,15 @@ export interface SvelteGrabConfig {
 	relayPort?: number;
 	mcpPort?: number;
 	theme?: 'dark' | 'light';
-	providers?: Array<{ name: string; port?: number }>;
+	/**
+	 * `maxConcurrency` limits how many requests the relay runs at once for the provider (default: 1).
+	 * `command` defines a custom agent CLI for names that aren't built-in providers.
+	 */
+	providers?: Array<{ name: string; port?: number; maxConcurrency?: number; command?: CommandProviderConfig }>;
+	/** Days an idle relay session is kept for retry/resume (default: 7) */
+	sessionTtlDays?: number;
+	/** Browser origins allowed to reach the relay and MCP server (default: localhost on any port) */
+	allowedOrigins?: string[];
 }
 
 // ============================================================
@@ -56,6 +65,33 @@ export function saveConfig(config: SvelteGrabConfig, cwd: string = process.cwd()
 	writeFileSync(filepath, JSON.stringify(config, null, 2) + '\n', 'utf-8');
 }
 
+/** Relay sessions, grab history and checkpoint indexes; holds prompts and page context */
+const STATE_DIR_ENTRY = '.svelte-grab/';
+
+/**
+ * Whether the project's .gitignore already ignores the `.svelte-grab/` state directory.
+ */
+export function isStateDirIgnored(cwd: string = process.cwd()): boolean {
+	const gitignorePath = join(cwd, '.gitignore');
+	if (!existsSync(gitignorePath)) return false;
+	return readFileSync(gitignorePath, 'utf-8')
+		.split('\n')
+		.some(line => /^\/?\.svelte-grab\/?$/.test(line.trim()));
+}
+
+/**
+ * Add `.svelte-grab/` to the project's .gitignore (creating it if needed), unless it is there already.
+ * Returns whether the file changed.
+ */
+export function ignoreStateDir(cwd: string = process.cwd()): boolean {
+	if (isStateDirIgnored(cwd)) return false;
+	const gitignorePath = join(cwd, '.gitignore');
+	const existing = existsSync(gitignorePath) ? readFileSync(gitignorePath, 'utf-8') : '';
+	const separator = existing && !existing.endsWith('\n') ? '\n' : '';
+	writeFileSync(gitignorePath, `${existing}${separator}${STATE_DIR_ENTRY}\n`, 'utf-8');
+	return true;
+}
+
 /**
  * Display a simple diff between two JSON strings.
  */
@@ -5,7 +5,8 @@
  */
 
 import { createInterface } from 'readline';
-import { loadConfig, saveConfig, showDiff, type SvelteGrabConfig } from './config.js';
+import { ignoreStateDir, isStateDirIgnored, loadConfig, saveConfig, showDiff, type SvelteGrabConfig } from './config.js';
+import { generateAuthToken, loadAuthToken, saveAuthToken, AUTH_ENV_FILE, AUTH_ENV_VAR } from '../utils/auth.js';
 
 export interface ConfigureOptions {
 	dryRun?: boolean;
@@ -54,16 +55,36 @@ export async function configure(options: ConfigureOptions = {}): Promise<void> {
 		config.theme = themeChoice;
 	}
 
+	// Auth token shared by the browser, relay and MCP server (stored in .env.local, not the config)
+	const hasToken = loadAuthToken() !== null;
+	const regenerate = hasToken
+		? (await prompt('Regenerate auth token? [y/n]', 'n')).toLowerCase().startsWith('y')
+		: true;
+
 	const afterJson = JSON.stringify(config, null, 2);
 
 	console.log('\nChanges to svelte-grab.config.json:');
 	showDiff(beforeJson, afterJson);
 
+	if (regenerate) {
+		console.log(`\n${hasToken ? 'Regenerate' : 'Generate'} auth token in ${AUTH_ENV_FILE} (${AUTH_ENV_VAR})`);
+	}
+	if (!isStateDirIgnored()) {
+		console.log('\nAdd .svelte-grab/ to .gitignore');
+	}
+
 	if (options.dryRun) {
 		console.log('\n(dry run — no files written)\n');
 		return;
 	}
 
 	saveConfig(config);
+	if (regenerate) {
+		saveAuthToken(generateAuthToken());
+		console.log(`\n${hasToken ? 'Regenerated' : 'Generated'} auth token in ${AUTH_ENV_FILE} (${AUTH_ENV_VAR}). Restart the relay/MCP server to pick it up.`);
+	}
+	if (ignoreStateDir()) {
+		console.log('Added .svelte-grab/ (sessions, grab history, checkpoints) to .gitignore.');
+	}
 	console.log('\n\x1b[32mConfiguration saved.\x1b[0m\n');
 }
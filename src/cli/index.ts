@@ -68,12 +68,30 @@ async function main() {
 			break;
 		}
 
+		case 'sessions': {
+			const { sessions } = await import('./sessions.js');
+			const olderThanArg = args.find((a: string) => a.startsWith('--older-than='));
+			await sessions(args[1]?.startsWith('--') ? undefined : args[1], {
+				olderThan: olderThanArg ? olderThanArg.split('=')[1] : undefined,
+				all: args.includes('--all'),
+				dryRun: args.includes('--dry-run')
+			});
+			break;
+		}
+
 		case 'mcp': {
 			const { startMcpServer } = await import('../mcp/server.js');
 			const mcpPortArg = args.find((a: string) => a.startsWith('--port='));
 			const mcpPort = mcpPortArg ? parseInt(mcpPortArg.split('=')[1], 10) : undefined;
 			const stdio = args.includes('--stdio');
-			await startMcpServer({ port: mcpPort, stdio });
+			const { loadConfig } = await import('./config.js');
+			const { loadAuthToken } = await import('../utils/auth.js');
+			await startMcpServer({
+				port: mcpPort,
+				stdio,
+				authToken: loadAuthToken() ?? undefined,
+				allowedOrigins: loadConfig()?.allowedOrigins
+			});
 			break;
 		}
 
@@ -88,9 +106,10 @@ Usage:
   svelte-grab <command> [options]
 
 Commands:
-  init      Detect your Svelte project and add SvelteDevKit to the root layout.
-            Works with SvelteKit (auto-injects into +layout.svelte) and plain
-            Vite+Svelte projects (injects into src/App.svelte).
+  init      Detect your Svelte project and register the svelte-grab Vite plugin
+            in vite.config, which mounts SvelteDevKit and hosts the MCP and relay
+            endpoints in dev. Without a plugins array there, adds SvelteDevKit to
+            +layout.svelte (SvelteKit) or src/App.svelte (Vite+Svelte).
             Options:
               --dry-run     Show what would be changed without writing files
 
@@ -111,8 +130,17 @@ Commands:
             to coding agents (e.g. Claude Code). Your app connects via
             <SvelteGrab enableAgentRelay />.
             Options:
-              --port=4722           Server port (default: 4722)
-              --provider=claude-code  Agent provider (default: claude-code)
+              --port=4722           Server port (default: relayPort from config, else 4722)
+              --provider=a,b        Comma-separated agent providers (default: providers
+                                    in svelte-grab.config.json, else claude-code)
+
+  sessions  List or prune relay sessions saved in .svelte-grab/sessions.json
+            (kept for retry/resume across relay restarts).
+            Usage: svelte-grab sessions [list|prune]
+            Options:
+              --older-than=7d  Prune sessions idle longer than this (m, h, d)
+              --all            Prune every session
+              --dry-run        Show what would be pruned without writing
 
   mcp       Start the MCP server for direct agent integration. Browser sends
             context via HTTP POST, agents read it via MCP protocol.
@@ -143,6 +171,9 @@ Examples:
   npx svelte-grab configure                # Interactive configuration
   npx svelte-grab relay                    # Start relay on default port
   npx svelte-grab relay --provider=cursor  # Start relay with Cursor provider
+  npx svelte-grab relay --provider=cursor,codex  # Start relay with several providers
+  npx svelte-grab sessions                 # List saved relay sessions
+  npx svelte-grab sessions prune --older-than=1d  # Drop sessions idle for a day
   npx svelte-grab mcp --stdio              # Start MCP server for Claude Code
 `);
 			break;
@@ -1,5 +1,13 @@
 import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
 import { join } from 'path';
+import { generateAuthToken, loadAuthToken, saveAuthToken, AUTH_ENV_FILE, AUTH_ENV_VAR } from '../utils/auth.js';
+import { ignoreStateDir, isStateDirIgnored } from './config.js';
+
+// Passes the relay/MCP auth token from .env.local to the dev toolbar
+const DEVKIT_TAG = `<SvelteDevKit authToken={import.meta.env.${AUTH_ENV_VAR}} />`;
+
+const VITE_CONFIGS = ['vite.config.ts', 'vite.config.js', 'vite.config.mjs'];
+const PLUGIN_IMPORT = "import { svelteGrab } from 'svelte-grab/vite';";
 
 export interface InitOptions {
 	dryRun?: boolean;
@@ -47,6 +55,12 @@ export function init(cwd: string = process.cwd(), options: InitOptions = {}): vo
 		}
 	}
 
+	ensureAuthToken(cwd, dryRun);
+	ensureStateDirIgnored(cwd, dryRun);
+
+	// The Vite plugin mounts the dev kit itself; components are the fallback
+	if (injectVitePlugin(cwd, dryRun)) return;
+
 	if (isSvelteKit) {
 		injectSvelteKit(cwd, dryRun);
 	} else {
@@ -63,9 +77,76 @@ export function init(cwd: string = process.cwd(), options: InitOptions = {}): vo
 			console.log('');
 			console.log('  import { SvelteDevKit } from \'svelte-grab\';');
 			console.log('');
-			console.log('Then add <SvelteDevKit /> at the end of your root component template.');
+			console.log(`Then add ${DEVKIT_TAG} at the end of your root component template,`);
+			console.log('inside {#if import.meta.env.DEV} ... {/if} so the auth token stays out of production builds.');
+		}
+	}
+}
+
+/**
+ * Generate the shared secret for the relay and MCP server unless one exists.
+ */
+function ensureAuthToken(cwd: string, dryRun: boolean): void {
+	if (loadAuthToken(cwd)) return;
+
+	if (dryRun) {
+		console.log(`[svelte-grab] Would add ${AUTH_ENV_VAR} to ${AUTH_ENV_FILE}`);
+		return;
+	}
+
+	saveAuthToken(generateAuthToken(), cwd);
+	console.log(`[svelte-grab] Generated auth token in ${AUTH_ENV_FILE} (${AUTH_ENV_VAR}). Keep this file out of git.`);
+}
+
+/**
+ * Keep the relay's and MCP server's state (`.svelte-grab/`) out of git.
+ */
+function ensureStateDirIgnored(cwd: string, dryRun: boolean): void {
+	if (isStateDirIgnored(cwd)) return;
+
+	if (dryRun) {
+		console.log('[svelte-grab] Would add .svelte-grab/ to .gitignore');
+		return;
+	}
+
+	ignoreStateDir(cwd);
+	console.log('[svelte-grab] Added .svelte-grab/ (sessions, grab history, checkpoints) to .gitignore');
+}
+
+/**
+ * Register the svelte-grab Vite plugin in vite.config.
+ * Returns false when there is no config with a `plugins: [...]` array to add it to.
+ */
+function injectVitePlugin(cwd: string, dryRun: boolean): boolean {
+	const file = VITE_CONFIGS.find(f => existsSync(join(cwd, f)));
+	if (!file) return false;
+
+	const configPath = join(cwd, file);
+	let content = readFileSync(configPath, 'utf-8');
+
+	if (content.includes("from 'svelte-grab/vite'")) {
+		console.log(`[svelte-grab] The svelte-grab plugin is already in ${file}. Nothing to do!`);
+		return true;
+	}
+	if (!/plugins\s*:\s*\[/.test(content)) return false;
+
+	content = `${PLUGIN_IMPORT}\n` + content.replace(/plugins\s*:\s*\[/, match => `${match}svelteGrab(), `);
+
+	if (dryRun) {
+		console.log(`[svelte-grab] Would modify ${file}:\n${content}`);
+	} else {
+		writeFileSync(configPath, content, 'utf-8');
+		console.log(`[svelte-grab] Added the svelte-grab plugin to ${file}`);
+	}
+
+	// A component added by an earlier init would mount a second dev kit
+	for (const component of [join('src', 'routes', '+layout.svelte'), join('src', 'App.svelte')]) {
+		const componentPath = join(cwd, component);
+		if (existsSync(componentPath) && readFileSync(componentPath, 'utf-8').includes("from 'svelte-grab'")) {
+			console.log(`[svelte-grab] Remove <SvelteDevKit /> from ${component}: the plugin mounts it now (or pass { inject: false } to svelteGrab()).`);
 		}
 	}
+	return true;
 }
 
 function injectSvelteKit(cwd: string, dryRun: boolean): void {
@@ -81,7 +162,7 @@ function injectSvelteKit(cwd: string, dryRun: boolean): void {
 {@render children?.()}
 
 {#if dev}
-	<SvelteDevKit />
+	${DEVKIT_TAG}
 {/if}
 `;
 		if (dryRun) {
@@ -126,7 +207,7 @@ function injectSvelteKit(cwd: string, dryRun: boolean): void {
 	}
 
 	// Add component at the end with dev gating
-	content = content.trimEnd() + '\n\n{#if dev}\n\t<SvelteDevKit />\n{/if}\n';
+	content = content.trimEnd() + `\n\n{#if dev}\n\t${DEVKIT_TAG}\n{/if}\n`;
 
 	if (dryRun) {
 		console.log(`[svelte-grab] Would modify src/routes/+layout.svelte:\n${content}`);
@@ -157,7 +238,8 @@ function injectViteSvelte(cwd: string, dryRun: boolean): void {
 		content = `${scriptTag}\n\timport { SvelteDevKit } from 'svelte-grab';\n</script>\n\n` + content;
 	}
 
-	content = content.trimEnd() + '\n\n<SvelteDevKit />\n';
+	// Dev only, like the SvelteKit layout: production bundles must not carry the token
+	content = content.trimEnd() + `\n\n{#if import.meta.env.DEV}\n\t${DEVKIT_TAG}\n{/if}\n`;
 
 	if (dryRun) {
 		console.log(`[svelte-grab] Would modify src/App.svelte:\n${content}`);
@@ -1,28 +1,124 @@
+import { resolve } from 'path';
+import type { AgentProvider } from '../relay/providers/base.js';
+import type { RelayServerOptions } from '../relay/server.js';
+import { loadConfig, type SvelteGrabConfig } from './config.js';
+import { loadAuthToken } from '../utils/auth.js';
+
+const DEFAULT_PROVIDER = 'claude-code';
+
+const PROVIDER_LOADERS: Record<string, () => Promise<AgentProvider>> = {
+	'claude-code': async () => new (await import('../relay/providers/claude-code.js')).ClaudeCodeProvider(),
+	'cursor': async () => new (await import('../relay/providers/cursor.js')).CursorProvider(),
+	'copilot': async () => new (await import('../relay/providers/copilot.js')).CopilotProvider(),
+	'codex': async () => new (await import('../relay/providers/codex.js')).CodexProvider()
+};
+
+/**
+ * Resolve which providers to load.
+ * Order: --provider list, then providers saved by `svelte-grab add` in the
+ * config at `cwd`, then claude-code.
+ */
+export function resolveProviderNames(providerOption?: string, cwd: string = process.cwd()): string[] {
+	if (providerOption) {
+		return [...new Set(providerOption.split(',').map(n => n.trim()).filter(Boolean))];
+	}
+
+	const configured = loadConfig(cwd)?.providers?.map(p => p.name) ?? [];
+	if (configured.length > 0) {
+		return [...new Set(configured)];
+	}
+
+	return [DEFAULT_PROVIDER];
+}
+
+/**
+ * Find the loader for a provider: a built-in one, or a command provider
+ * defined under `providers` in the svelte-grab.config.json at `cwd`, run from `cwd`
+ * unless it sets its own.
+ */
+function getProviderLoader(name: string, cwd: string): (() => Promise<AgentProvider>) | undefined {
+	if (PROVIDER_LOADERS[name]) return PROVIDER_LOADERS[name];
+
+	const command = loadConfig(cwd)?.providers?.find(p => p.name === name && p.command)?.command;
+	if (!command) return undefined;
+	const config = { ...command, cwd: resolve(cwd, command.cwd ?? '.') };
+	return async () => new (await import('../relay/providers/command.js')).CommandProvider(name, config);
+}
+
+/**
+ * Instantiate the named providers and report which ones can run.
+ * Unknown or unavailable providers are skipped. Command providers come from
+ * the config at `cwd`.
+ */
+export async function loadProviders(names: string[], cwd: string = process.cwd()): Promise<AgentProvider[]> {
+	const providers: AgentProvider[] = [];
+
+	for (const name of names) {
+		const load = getProviderLoader(name, cwd);
+		if (!load) {
+			console.warn(`[svelte-grab] Unknown provider "${name}". Known providers: ${Object.keys(PROVIDER_LOADERS).join(', ')}, or add a "command" to its entry in svelte-grab.config.json`);
+			continue;
+		}
+
+		const provider = await load();
+		const availability = provider.checkAvailability
+			? await provider.checkAvailability()
+			: { available: true };
+
+		if (availability.available) {
+			console.log(`  \x1b[32m✓\x1b[0m ${name}`);
+			providers.push(provider);
+		} else {
+			console.log(`  \x1b[31m✗\x1b[0m ${name} — ${availability.reason || 'not available'}`);
+		}
+	}
+
+	return providers;
+}
+
+/**
+ * Relay options set in svelte-grab.config.json: session TTL, per-provider concurrency and allowed origins.
+ */
+export function relayOptionsFromConfig(config: SvelteGrabConfig | null): Pick<RelayServerOptions, 'sessionTtl' | 'maxConcurrency' | 'allowedOrigins'> {
+	const maxConcurrency: Record<string, number> = {};
+	for (const p of config?.providers ?? []) {
+		if (p.maxConcurrency) maxConcurrency[p.name] = p.maxConcurrency;
+	}
+
+	return {
+		sessionTtl: config?.sessionTtlDays ? config.sessionTtlDays * 24 * 60 * 60 * 1000 : undefined,
+		maxConcurrency,
+		allowedOrigins: config?.allowedOrigins
+	};
+}
+
 /**
  * Start the agent relay server from CLI.
  */
 export async function startRelay(options: { port?: number; provider?: string } = {}): Promise<void> {
-	const port = options.port || 4722;
-	const providerName = options.provider || 'claude-code';
+	const config = loadConfig();
+	const port = options.port || config?.relayPort || 4722;
+	const providerNames = resolveProviderNames(options.provider);
 
 	console.log(`[svelte-grab] Starting relay server on port ${port}...`);
 
 	try {
 		const { createRelayServer } = await import('../relay/index.js');
-		const providers = [];
-
-		if (providerName === 'claude-code') {
-			try {
-				const { ClaudeCodeProvider } = await import('../relay/providers/claude-code.js');
-				providers.push(new ClaudeCodeProvider());
-			} catch {
-				console.warn('[svelte-grab] Claude Code SDK not available. Relay will run without agent providers.');
-				console.warn('  The SDK is only needed if you want the relay to execute agent actions.');
-				console.warn('  Install: npm install @anthropic-ai/claude-agent-sdk');
-			}
+
+		console.log('[svelte-grab] Providers:');
+		const providers = await loadProviders(providerNames);
+
+		if (providers.length === 0) {
+			console.warn('[svelte-grab] No agent providers available. Relay will run without local providers.');
+			console.warn('  Remote handlers can still register via connectToRelay().');
 		}
 
-		const server = await createRelayServer({ port, providers });
+		const server = await createRelayServer({
+			port,
+			providers,
+			...relayOptionsFromConfig(config),
+			authToken: loadAuthToken() ?? undefined
+		});
 
 		// Handle graceful shutdown
 		process.on('SIGINT', () => {
@@ -0,0 +1,101 @@
+/**
+ * CLI command: svelte-grab sessions [list|prune]
+ *
+ * Lists or prunes relay sessions persisted in .svelte-grab/sessions.json.
+ */
+
+import { loadConfig } from './config.js';
+import type { SessionRecord } from '../relay/sessions.js';
+
+export interface SessionsOptions {
+	/** Prune sessions idle longer than this, e.g. "12h" or "3d" (default: configured TTL) */
+	olderThan?: string;
+	/** Prune every session */
+	all?: boolean;
+	dryRun?: boolean;
+}
+
+const DURATION_UNITS: Record<string, number> = {
+	m: 60 * 1000,
+	h: 60 * 60 * 1000,
+	d: 24 * 60 * 60 * 1000
+};
+
+/**
+ * Parse a duration like "30m", "12h" or "7d" into milliseconds.
+ */
+function parseDuration(value: string): number | null {
+	const match = /^(\d+(?:\.\d+)?)([mhd])$/.exec(value.trim());
+	return match ? parseFloat(match[1]) * DURATION_UNITS[match[2]] : null;
+}
+
+function formatAge(timestamp: number): string {
+	const minutes = Math.floor((Date.now() - timestamp) / DURATION_UNITS.m);
+	if (minutes < 60) return `${minutes}m ago`;
+	if (minutes < 60 * 24) return `${Math.floor(minutes / 60)}h ago`;
+	return `${Math.floor(minutes / (60 * 24))}d ago`;
+}
+
+function printSession(record: SessionRecord): void {
+	const prompt = record.lastContext.prompt.replace(/\s+/g, ' ').slice(0, 60);
+	const runs = record.provider?.prompts.length ?? 0;
+	console.log(`  ${record.sessionId}  \x1b[36m${record.agentId}\x1b[0m  ${formatAge(record.updatedAt)}  ${runs} run${runs === 1 ? '' : 's'}`);
+	if (prompt) console.log(`    \x1b[2m${prompt}\x1b[0m`);
+}
+
+export async function sessions(action: string = 'list', options: SessionsOptions = {}): Promise<void> {
+	const { JsonFileSessionStore, defaultSessionsPath, DEFAULT_SESSION_TTL } = await import('../relay/sessions.js');
+	const config = loadConfig();
+	const ttl = config?.sessionTtlDays ? config.sessionTtlDays * DURATION_UNITS.d : DEFAULT_SESSION_TTL;
+	// Keep expired sessions in memory so `prune` can show them; nothing is written unless pruning for real
+	const store = new JsonFileSessionStore(defaultSessionsPath(), { ttl, pruneOnLoad: false });
+
+	switch (action) {
+		case 'list': {
+			const records = store.list();
+			if (records.length === 0) {
+				console.log('No relay sessions.');
+				return;
+			}
+			console.log(`\n${records.length} relay session${records.length === 1 ? '' : 's'}:\n`);
+			records.forEach(printSession);
+			console.log('');
+			return;
+		}
+
+		case 'prune': {
+			let maxAge = ttl;
+			if (options.all) {
+				maxAge = -1;
+			} else if (options.olderThan) {
+				const parsed = parseDuration(options.olderThan);
+				if (parsed === null) {
+					console.log(`Invalid --older-than value "${options.olderThan}". Use e.g. 30m, 12h or 7d.`);
+					return;
+				}
+				maxAge = parsed;
+			}
+
+			const stale = store.stale(maxAge).sort((a, b) => b.updatedAt - a.updatedAt);
+			if (stale.length === 0) {
+				console.log('No sessions to prune.');
+				return;
+			}
+
+			console.log(`\nPruning ${stale.length} session${stale.length === 1 ? '' : 's'}:\n`);
+			stale.forEach(printSession);
+
+			if (options.dryRun) {
+				console.log('\n(dry run — no files written)\n');
+				return;
+			}
+
+			store.prune(maxAge);
+			console.log(`\n\x1b[32mPruned ${stale.length} session${stale.length === 1 ? '' : 's'}.\x1b[0m\n`);
+			return;
+		}
+
+		default:
+			console.log('Usage: svelte-grab sessions [list|prune] [--older-than=7d] [--all] [--dry-run]');
+	}
+}
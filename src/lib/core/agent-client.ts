@@ -3,68 +3,23 @@
  */
 
 import type { AgentHistoryEntry } from '../types.js';
-
-interface AgentRequest {
-	type: 'agent-request';
-	agentId: string;
-	sessionId: string;
-	context: {
-		content: string[];
-		prompt: string;
-		selectedCount: number;
-	};
-}
-
-interface AgentAbort {
-	type: 'agent-abort';
-	sessionId: string;
-}
-
-interface AgentUndo {
-	type: 'agent-undo';
-	sessionId: string;
-}
-
-interface AgentRedo {
-	type: 'agent-redo';
-	sessionId: string;
-}
-
-interface AgentResume {
-	type: 'agent-resume';
-	sessionId: string;
-	prompt: string;
-}
-
-interface AgentRetry {
-	type: 'agent-retry';
-	sessionId: string;
-}
-
-interface AgentStatus {
-	type: 'agent-status';
-	sessionId: string;
-	message: string;
-}
-
-interface AgentDone {
-	type: 'agent-done';
-	sessionId: string;
-	result: string;
-}
-
-interface AgentError {
-	type: 'agent-error';
-	sessionId: string;
-	error: string;
-}
-
-interface AgentHandlers {
-	type: 'handlers';
-	agents: string[];
-}
-
-type ServerMessage = AgentStatus | AgentDone | AgentError | AgentHandlers;
+import type {
+	AgentRequestMessage,
+	AgentAbortMessage,
+	AgentUndoMessage,
+	AgentRedoMessage,
+	AgentResumeMessage,
+	AgentRetryMessage,
+	AgentCancelMessage,
+	AgentSubscribeMessage,
+	AgentUnsubscribeMessage,
+	HealthMessage,
+	ServerMessage,
+	AgentEvent,
+	ChangedFile,
+	RelayQueueState
+} from './relay-protocol.js';
+import { RELAY_PROTOCOL_VERSION, isCompatibleProtocolVersion } from './relay-protocol.js';
 
 export class AgentClient {
 	private ws: WebSocket | null = null;
@@ -74,26 +29,50 @@ export class AgentClient {
 	private shouldReconnect = false;
 	private reconnectAttempts = 0;
 	private _requestHistory: AgentHistoryEntry[] = [];
-	private _pendingEntry: AgentHistoryEntry | null = null;
+	// This session's requests awaiting done/error, by requestId, in the order they were sent
+	private pending = new Map<string, { entry: AgentHistoryEntry; state?: RelayQueueState }>();
+	// The request the relay last reported running for this session; done/error belong to it
+	private runningRequestId: string | null = null;
+	// Sessions to receive (and replay) every message of; re-sent on reconnect
+	private subscriptions = new Set<string>();
+	// `seq` of the last message received per session, so resubscribing replays only newer ones
+	private lastSeq = new Map<string, number>();
 
 	/** Called when agent sends a status update */
 	onStatus: ((message: string) => void) | null = null;
-	/** Called when agent completes */
-	onDone: ((result: string) => void) | null = null;
+	/** Called when a request is queued behind others, starts running, or is cancelled */
+	onQueue: ((state: RelayQueueState, position?: number, requestId?: string) => void) | null = null;
+	/** Called when agent reports structured progress (tool calls, file reads/edits, token usage) */
+	onEvent: ((event: AgentEvent) => void) | null = null;
+	/** Called when agent completes, with the files it changed when the relay tracks them */
+	onDone: ((result: string, files?: ChangedFile[]) => void) | null = null;
 	/** Called on agent error */
 	onError: ((error: string) => void) | null = null;
 	/** Called when server reports available handlers */
 	onHandlers: ((agents: string[]) => void) | null = null;
 	/** Called when connection state changes */
 	onConnectionChange: ((connected: boolean) => void) | null = null;
+	/** Called after a subscription's buffered messages have been replayed */
+	onSubscribed: ((sessionId: string, replayed: number) => void) | null = null;
 
 	/**
 	 * Connect to the relay server.
+	 * @param token - Relay auth token, sent as the `token` query parameter
+	 * @param sessionId - Join an existing (shared) session instead of starting a new one.
+	 *   The client subscribes to it, so it sees that session's activity from other tabs.
 	 */
-	connect(url: string): void {
+	connect(url: string, token?: string, sessionId?: string): void {
+		if (token) {
+			const withToken = new URL(url);
+			withToken.searchParams.set('token', token);
+			url = withToken.toString();
+		}
 		this.url = url;
 		this.shouldReconnect = true;
-		this.sessionId = crypto.randomUUID();
+		this.sessionId = sessionId ?? crypto.randomUUID();
+		if (sessionId) {
+			this.subscriptions.add(sessionId);
+		}
 		this.doConnect();
 	}
 
@@ -109,36 +88,57 @@ export class AgentClient {
 			this.ws.onopen = () => {
 				this.reconnectAttempts = 0;
 				this.onConnectionChange?.(true);
-				// Send health check
-				this.ws?.send(JSON.stringify({ type: 'health' }));
+				// Send health check, announcing our protocol version
+				const health: HealthMessage = { type: 'health', protocolVersion: RELAY_PROTOCOL_VERSION };
+				this.ws?.send(JSON.stringify(health));
+				for (const sessionId of this.subscriptions) {
+					this.sendSubscribe(sessionId);
+				}
 			};
 
 			this.ws.onmessage = (event) => {
 				try {
 					const msg: ServerMessage = JSON.parse(event.data);
+					if ('seq' in msg && msg.seq !== undefined) {
+						this.lastSeq.set(msg.sessionId, msg.seq);
+					}
 					switch (msg.type) {
 						case 'agent-status':
 							this.onStatus?.(msg.message);
 							break;
+						case 'agent-event':
+							this.onEvent?.(msg.event);
+							break;
+						case 'agent-queue':
+							if (msg.sessionId === this.sessionId) this.trackQueueState(msg.requestId, msg.state);
+							this.onQueue?.(msg.state, msg.position, msg.requestId);
+							break;
 						case 'agent-done':
-							if (this._pendingEntry) {
-								this._pendingEntry.result = msg.result;
-								this._requestHistory.push(this._pendingEntry);
-								this._pendingEntry = null;
-							}
-							this.onDone?.(msg.result);
+							if (msg.sessionId === this.sessionId) this.settle({ result: msg.result });
+							this.onDone?.(msg.result, msg.files);
 							break;
 						case 'agent-error':
-							if (this._pendingEntry) {
-								this._pendingEntry.error = msg.error;
-								this._requestHistory.push(this._pendingEntry);
-								this._pendingEntry = null;
+							// Session-less version errors are already reported via the health response
+							if (msg.code === 'unsupported-version' && !msg.sessionId) break;
+							if (msg.code !== 'agent-failed') {
+								console.error(`[SvelteGrab] Relay error (${msg.code}): ${msg.error}`);
 							}
+							if (msg.sessionId === this.sessionId) this.settle({ error: msg.error });
 							this.onError?.(msg.error);
 							break;
+						case 'agent-subscribed':
+							this.onSubscribed?.(msg.sessionId, msg.replayed);
+							break;
 						case 'handlers':
 							this.onHandlers?.(msg.agents);
 							break;
+						case 'health':
+							if (!isCompatibleProtocolVersion(msg.protocolVersion)) {
+								const error = `Relay protocol mismatch: relay speaks v${msg.protocolVersion ?? 0}, this page speaks v${RELAY_PROTOCOL_VERSION}. Update svelte-grab so both sides match.`;
+								console.error(`[SvelteGrab] ${error}`);
+								this.onError?.(error);
+							}
+							break;
 					}
 				} catch {
 					console.error('[SvelteGrab] Failed to parse relay message');
@@ -171,37 +171,64 @@ export class AgentClient {
 		}, delay);
 	}
 
+	/**
+	 * Remember a request until its done/error arrives, under a new request ID.
+	 */
+	private track(prompt: string, content: string[]): string {
+		const requestId = crypto.randomUUID();
+		this.pending.set(requestId, { entry: { prompt, content, timestamp: Date.now() } });
+		return requestId;
+	}
+
+	private trackQueueState(requestId: string, state: RelayQueueState): void {
+		const request = this.pending.get(requestId);
+		if (!request) return;
+		request.state = state;
+		if (state === 'running') {
+			this.runningRequestId = requestId;
+		} else if (state === 'cancelled') {
+			this._requestHistory.push({ ...request.entry, error: '[cancelled]' });
+			this.pending.delete(requestId);
+		}
+	}
+
+	/**
+	 * Record the outcome of the running request. Errors for requests that never
+	 * reached the queue (e.g. unknown agent) go to the newest one without a queue update.
+	 */
+	private settle(outcome: { result?: string; error?: string }): void {
+		let requestId = this.runningRequestId;
+		if (requestId === null && outcome.error !== undefined) {
+			requestId = [...this.pending].reverse().find(([, r]) => !r.state)?.[0] ?? null;
+		}
+		const request = requestId === null ? undefined : this.pending.get(requestId);
+		if (!request) return;
+
+		this._requestHistory.push({ ...request.entry, ...outcome });
+		this.pending.delete(requestId!);
+		if (requestId === this.runningRequestId) this.runningRequestId = null;
+	}
+
 	/**
 	 * Send a request to an agent via the relay.
+	 * Returns its request ID (for cancelQueued), or undefined when not connected.
 	 */
-	sendRequest(agentId: string, context: { content: string[]; prompt: string; selectedCount: number }): void {
+	sendRequest(agentId: string, context: { content: string[]; prompt: string; selectedCount: number }): string | undefined {
 		if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
 			this.onError?.('Not connected to relay server');
 			return;
 		}
 
-		// Save any existing pending entry before overwriting
-		if (this._pendingEntry) {
-			this._requestHistory.push({
-				...this._pendingEntry,
-				error: '[interrupted by new request]'
-			});
-		}
-
-		this._pendingEntry = {
-			prompt: context.prompt,
-			content: context.content,
-			timestamp: Date.now()
-		};
-
-		const msg: AgentRequest = {
+		const msg: AgentRequestMessage = {
 			type: 'agent-request',
 			agentId,
 			sessionId: this.sessionId,
-			context
+			context,
+			requestId: this.track(context.prompt, context.content)
 		};
 
 		this.ws.send(JSON.stringify(msg));
+		return msg.requestId;
 	}
 
 	/**
@@ -210,7 +237,7 @@ export class AgentClient {
 	abort(): void {
 		if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
 
-		const msg: AgentAbort = {
+		const msg: AgentAbortMessage = {
 			type: 'agent-abort',
 			sessionId: this.sessionId
 		};
@@ -227,15 +254,10 @@ export class AgentClient {
 			return;
 		}
 
-		this._pendingEntry = {
-			prompt: 'Undo the last change',
-			content: [],
-			timestamp: Date.now()
-		};
-
-		const msg: AgentUndo = {
+		const msg: AgentUndoMessage = {
 			type: 'agent-undo',
-			sessionId: this.sessionId
+			sessionId: this.sessionId,
+			requestId: this.track('Undo the last change', [])
 		};
 
 		this.ws.send(JSON.stringify(msg));
@@ -250,15 +272,10 @@ export class AgentClient {
 			return;
 		}
 
-		this._pendingEntry = {
-			prompt: 'Redo the last change',
-			content: [],
-			timestamp: Date.now()
-		};
-
-		const msg: AgentRedo = {
+		const msg: AgentRedoMessage = {
 			type: 'agent-redo',
-			sessionId: this.sessionId
+			sessionId: this.sessionId,
+			requestId: this.track('Redo the last change', [])
 		};
 
 		this.ws.send(JSON.stringify(msg));
@@ -273,16 +290,11 @@ export class AgentClient {
 			return;
 		}
 
-		this._pendingEntry = {
-			prompt,
-			content: [],
-			timestamp: Date.now()
-		};
-
-		const msg: AgentResume = {
+		const msg: AgentResumeMessage = {
 			type: 'agent-resume',
 			sessionId: this.sessionId,
-			prompt
+			prompt,
+			requestId: this.track(prompt, [])
 		};
 
 		this.ws.send(JSON.stringify(msg));
@@ -299,20 +311,76 @@ export class AgentClient {
 
 		// Re-use the last history entry info for the pending entry
 		const lastEntry = this._requestHistory[this._requestHistory.length - 1];
-		this._pendingEntry = {
-			prompt: lastEntry?.prompt || 'Retry',
-			content: lastEntry?.content || [],
-			timestamp: Date.now()
+		const msg: AgentRetryMessage = {
+			type: 'agent-retry',
+			sessionId: this.sessionId,
+			requestId: this.track(lastEntry?.prompt || 'Retry', lastEntry?.content || [])
 		};
 
-		const msg: AgentRetry = {
-			type: 'agent-retry',
-			sessionId: this.sessionId
+		this.ws.send(JSON.stringify(msg));
+	}
+
+	/**
+	 * Cancel this session's queued requests that have not started yet, or only `requestId`
+	 * (as returned by sendRequest). A running request is not affected; use abort() for that.
+	 */
+	cancelQueued(requestId?: string): void {
+		if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+
+		const msg: AgentCancelMessage = {
+			type: 'agent-cancel',
+			sessionId: this.sessionId,
+			requestId
+		};
+
+		this.ws.send(JSON.stringify(msg));
+	}
+
+	/**
+	 * Receive every status/event/done/error message of a session, including
+	 * sessions started by other tabs. Buffered messages are replayed first; after
+	 * a reconnect, only those not received yet.
+	 */
+	subscribe(sessionId: string): void {
+		this.subscriptions.add(sessionId);
+		this.sendSubscribe(sessionId);
+	}
+
+	/**
+	 * Stop receiving messages for a subscribed session.
+	 */
+	unsubscribe(sessionId: string): void {
+		this.subscriptions.delete(sessionId);
+		this.lastSeq.delete(sessionId);
+		if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+
+		const msg: AgentUnsubscribeMessage = {
+			type: 'agent-unsubscribe',
+			sessionId
 		};
 
 		this.ws.send(JSON.stringify(msg));
 	}
 
+	private sendSubscribe(sessionId: string): void {
+		if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+
+		const msg: AgentSubscribeMessage = {
+			type: 'agent-subscribe',
+			sessionId,
+			since: this.lastSeq.get(sessionId)
+		};
+
+		this.ws.send(JSON.stringify(msg));
+	}
+
+	/**
+	 * ID of this client's session. Share it so other tabs can subscribe to it.
+	 */
+	get currentSessionId(): string {
+		return this.sessionId;
+	}
+
 	/**
 	 * Get the request history for this session.
 	 */
@@ -336,14 +404,14 @@ export class AgentClient {
 			clearTimeout(this.reconnectTimer);
 			this.reconnectTimer = null;
 		}
-		// Resolve any pending entry
-		if (this._pendingEntry) {
+		// Resolve any pending entries
+		if (this.pending.size > 0) {
 			this.onError?.('Connection closed');
-			this._requestHistory.push({
-				...this._pendingEntry,
-				error: '[disconnected]'
-			});
-			this._pendingEntry = null;
+			for (const { entry } of this.pending.values()) {
+				this._requestHistory.push({ ...entry, error: '[disconnected]' });
+			}
+			this.pending.clear();
+			this.runningRequestId = null;
 		}
 		if (this.ws) {
 			this.ws.close();
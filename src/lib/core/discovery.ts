@@ -0,0 +1,99 @@
+/**
+ * Port discovery for the relay and MCP server.
+ * Both move to the next free port when the preferred one is taken, so their
+ * `/health` endpoint says which service and project they are. The browser
+ * probes the range they can move into and picks the instance serving its project.
+ *
+ * Uses only `fetch` — it is compiled into both bundles.
+ */
+
+/** How many ports past the preferred one a server may move to */
+export const PORT_SEARCH_RANGE = 10;
+
+export type ServerKind = 'mcp' | 'relay';
+
+/** Identity fields of a `/health` response */
+export interface ServerIdentity {
+	service: `svelte-grab-${ServerKind}`;
+	/** Directory the server was started in */
+	projectRoot: string;
+	/** Port the server actually bound */
+	port: number;
+}
+
+const PROBE_TIMEOUT_MS = 1000;
+
+/**
+ * Fetch `/health` on a port and return the server's identity, or null when
+ * nothing answers or it is not the expected svelte-grab service.
+ */
+async function probe(kind: ServerKind, host: string, port: number): Promise<ServerIdentity | null> {
+	try {
+		const res = await fetch(`http://${host}:${port}/health`, { signal: AbortSignal.timeout(PROBE_TIMEOUT_MS) });
+		if (!res.ok) return null;
+		const body = await res.json();
+		if (body?.service !== `svelte-grab-${kind}` || typeof body.projectRoot !== 'string') return null;
+		return { service: body.service, projectRoot: body.projectRoot, port };
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Whether a server started in `serverRoot` serves a page whose sources live in `pageRoot`.
+ * A server started at a monorepo root serves every package below it.
+ */
+export function servesProject(serverRoot: string, pageRoot: string): boolean {
+	const server = serverRoot.replace(/\/+$/, '');
+	const page = pageRoot.replace(/\/+$/, '');
+	return page === server || page.startsWith(`${server}/`);
+}
+
+/**
+ * Find the port of the server for this page's project.
+ *
+ * Tries `preferredPort` first, then the ports a busy preferred port pushes a
+ * server to. With a known `pageRoot`, the instance started closest to it wins.
+ * Without one (Svelte 5 dev metadata only has root-relative paths), an instance
+ * is used only when it is the sole one answering: with several, any pick could be
+ * another project's. Falls back to `preferredPort`, with a warning, when no
+ * instance matches or the choice is ambiguous.
+ */
+export async function discoverPort(
+	kind: ServerKind,
+	preferredPort: number,
+	pageRoot: string | null,
+	host = 'localhost'
+): Promise<number> {
+	const preferred = await probe(kind, host, preferredPort);
+	if (preferred && pageRoot && preferred.projectRoot.replace(/\/+$/, '') === pageRoot.replace(/\/+$/, '')) {
+		return preferredPort;
+	}
+
+	const ports = Array.from({ length: PORT_SEARCH_RANGE }, (_, i) => preferredPort + i + 1);
+	const others = await Promise.all(ports.map(port => probe(kind, host, port)));
+	const found = [preferred, ...others].filter((s): s is ServerIdentity => s !== null);
+
+	if (!pageRoot) {
+		if (found.length <= 1) return found[0]?.port ?? preferredPort;
+		console.warn(
+			`[SvelteGrab] Several svelte-grab ${kind} servers are running (${found.map(s => `${s.port} → ${s.projectRoot}`).join(', ')}) ` +
+			`and this page's project root is unknown. Using ${preferredPort}. ` +
+			`Set the "projectRoot" prop to your project's absolute path to connect to the right one.`
+		);
+		return preferredPort;
+	}
+
+	const match = found
+		.filter(s => servesProject(s.projectRoot, pageRoot))
+		.sort((a, b) => b.projectRoot.length - a.projectRoot.length)[0];
+	if (match) return match.port;
+
+	if (found.length > 0) {
+		console.warn(
+			`[SvelteGrab] No svelte-grab ${kind} server on ports ${preferredPort}-${preferredPort + PORT_SEARCH_RANGE} ` +
+			`serves ${pageRoot} (found: ${found.map(s => `${s.port} → ${s.projectRoot}`).join(', ')}). Using ${preferredPort}.`
+		);
+	}
+	return preferredPort;
+}
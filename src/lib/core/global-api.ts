@@ -1,4 +1,11 @@
 import type { SvelteGrabAPI, SvelteGrabPlugin, StackEntry, HistoryEntry } from '../types.js';
+import type { BrowserCommand, BrowserCommandOutput, ContextScreenshot, GrabbedElement } from './mcp-protocol.js';
+import { MAX_PROFILE_DURATION_MS } from './mcp-protocol.js';
+import { analyzeA11y, formatA11yForAgent, toA11yContext } from '../utils/a11y-checker.js';
+import { analyzeStyles, formatStylesForAgent } from '../utils/css-analyzer.js';
+import { ProfilerTracker } from '../utils/profiler-tracker.js';
+import { registerToolOutput } from '../utils/unified-export.js';
+import { type SvelteElement, shortenPath } from '../utils/shared.js';
 
 declare global {
 	interface Window {
@@ -15,11 +22,64 @@ export interface APICallbacks {
 	toggle: () => void;
 	isActive: () => boolean;
 	grab: (element: HTMLElement) => StackEntry[];
+	grabElement: (element: HTMLElement) => boolean;
+	openInEditor: (file: string, line: number) => void;
 	copyElement: (element: HTMLElement, format?: 'agent' | 'paths') => Promise<boolean>;
 	registerPlugin: (plugin: SvelteGrabPlugin) => void;
 	getHistory: () => HistoryEntry[];
 	getSelectedElements: () => HTMLElement[];
 	clearSelection: () => void;
+	/** Format an element's component context for an agent */
+	formatElement: (element: HTMLElement) => string;
+	/** Describe an element (selector, HTML preview, component stack) as JSON data */
+	describeElement: (element: HTMLElement) => GrabbedElement;
+	/** Take an `after` screenshot of an element. Resolves null when screenshots are unavailable */
+	screenshotElement: (element: HTMLElement) => Promise<ContextScreenshot | null>;
+}
+
+/**
+ * Find the first element matching a CSS selector. Throws on invalid selectors.
+ */
+function queryElement(selector: string): HTMLElement | null {
+	return document.querySelector<HTMLElement>(selector);
+}
+
+function auditA11y(selector = 'body', includeSubtree = true): BrowserCommandOutput | null {
+	const element = queryElement(selector);
+	if (!element) return null;
+
+	const report = analyzeA11y(element, includeSubtree);
+	const output = { text: formatA11yForAgent(report), data: { a11y: toA11yContext(report) } };
+	registerToolOutput('A11yReporter', output.text, output.data);
+	return output;
+}
+
+function inspectStyles(selector: string): BrowserCommandOutput | null {
+	const element = queryElement(selector);
+	if (!element) return null;
+
+	const loc = (element as SvelteElement).__svelte_meta?.loc;
+	const file = loc ? shortenPath(loc.file) : undefined;
+	const { categories, conflicts, inlineStyles } = analyzeStyles(element);
+	const output = {
+		text: formatStylesForAgent(element, categories, conflicts, file, loc?.line),
+		data: {
+			styles: { elementTag: element.tagName.toLowerCase(), file, line: loc?.line, categories, conflicts, inlineStyles }
+		}
+	};
+	registerToolOutput('StyleGrab', output.text, output.data);
+	return output;
+}
+
+async function profileRenders(durationMs: number): Promise<BrowserCommandOutput> {
+	const tracker = new ProfilerTracker();
+	tracker.start();
+	await new Promise(resolve => setTimeout(resolve, Math.min(Math.max(durationMs, 0), MAX_PROFILE_DURATION_MS)));
+	tracker.stop();
+
+	const output = { text: tracker.formatForAgent(), data: { profile: tracker.getContext() } };
+	registerToolOutput('RenderProfiler', output.text, output.data);
+	return output;
 }
 
 /**
@@ -33,11 +93,69 @@ export function createGlobalAPI(): { api: SvelteGrabAPI; callbacks: APICallbacks
 		toggle: () => {},
 		isActive: () => false,
 		grab: () => [],
+		grabElement: () => false,
+		openInEditor: () => {},
 		copyElement: async () => false,
 		registerPlugin: () => {},
 		getHistory: () => [],
 		getSelectedElements: () => [],
-		clearSelection: () => {}
+		clearSelection: () => {},
+		formatElement: () => '',
+		describeElement: (element) => ({
+			tagName: element.tagName.toLowerCase(),
+			componentName: null,
+			htmlPreview: '',
+			stack: []
+		}),
+		screenshotElement: async () => null
+	};
+
+	const grabSelector = (selector: string): BrowserCommandOutput | null => {
+		const element = queryElement(selector);
+		if (!element) return null;
+		return { text: callbacks.formatElement(element), data: { elements: [callbacks.describeElement(element)] } };
+	};
+
+	const screenshotSelector = async (selector: string): Promise<BrowserCommandOutput | null> => {
+		const element = queryElement(selector);
+		if (!element) return null;
+
+		const screenshot = await callbacks.screenshotElement(element);
+		if (!screenshot) {
+			throw new Error('Screenshot failed. Is html-to-image installed and enableScreenshot on?');
+		}
+		return {
+			text: `Screenshot of <${element.tagName.toLowerCase()}> (${selector})`,
+			data: { elements: [callbacks.describeElement(element)] },
+			screenshots: [screenshot]
+		};
+	};
+
+	const runCommand = async (command: BrowserCommand): Promise<BrowserCommandOutput> => {
+		let output: BrowserCommandOutput | null;
+		switch (command.type) {
+			case 'grab-element':
+				output = grabSelector(command.selector);
+				break;
+			case 'a11y-audit':
+				output = auditA11y(command.selector, command.includeSubtree);
+				break;
+			case 'capture-styles':
+				output = inspectStyles(command.selector);
+				break;
+			case 'capture-screenshot':
+				output = await screenshotSelector(command.selector);
+				break;
+			case 'profile-renders':
+				return profileRenders(command.durationMs);
+			default:
+				throw new Error(`Unknown command "${(command as { type: string }).type}"`);
+		}
+
+		if (output === null) {
+			throw new Error(`No element matches selector "${('selector' in command && command.selector) || 'body'}"`);
+		}
+		return output;
 	};
 
 	const api: SvelteGrabAPI = {
@@ -46,11 +164,18 @@ export function createGlobalAPI(): { api: SvelteGrabAPI; callbacks: APICallbacks
 		toggle: () => callbacks.toggle(),
 		isActive: () => callbacks.isActive(),
 		grab: (el) => callbacks.grab(el),
+		grabElement: (el) => callbacks.grabElement(el),
+		openInEditor: (file, line) => callbacks.openInEditor(file, line),
 		copyElement: (el, fmt) => callbacks.copyElement(el, fmt),
 		registerPlugin: (plugin) => callbacks.registerPlugin(plugin),
 		getHistory: () => callbacks.getHistory(),
 		getSelectedElements: () => callbacks.getSelectedElements(),
-		clearSelection: () => callbacks.clearSelection()
+		clearSelection: () => callbacks.clearSelection(),
+		grabSelector: (selector) => grabSelector(selector)?.text ?? null,
+		auditA11y: (selector, includeSubtree) => auditA11y(selector, includeSubtree)?.text ?? null,
+		inspectStyles: (selector) => inspectStyles(selector)?.text ?? null,
+		profileRenders: async (durationMs) => (await profileRenders(durationMs)).text,
+		runCommand
 	};
 
 	if (typeof window !== 'undefined') {
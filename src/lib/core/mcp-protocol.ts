@@ -0,0 +1,211 @@
+/**
+ * Message types exchanged between the browser and the MCP server.
+ * The browser POSTs `ContextEnvelope`s to /context. The server pushes
+ * commands to the page as `command` events on the /events SSE stream; the
+ * page runs them and POSTs a result to /command-result. When the agent calls
+ * `report_result`, the page receives an `agent-done` event.
+ * Grabs sent with a prompt are queued as tasks; the page receives the
+ * project's queue as `queue` events and reorders or cancels through /queue.
+ *
+ * Must stay free of DOM and Node APIs — it is compiled into both bundles.
+ */
+
+import type { ChangedFile } from './relay-protocol.js';
+import type {
+	StackEntry,
+	A11yIssue,
+	A11yReport,
+	StyleCategory,
+	StyleConflict,
+	CapturedError,
+	ComponentProfile,
+	RenderBurst
+} from '../types.js';
+
+/**
+ * Current version of the context envelope. Bump on any breaking change to its shape.
+ * The server rejects envelopes with a different version.
+ */
+export const CONTEXT_PAYLOAD_VERSION = 1;
+
+/** A grabbed element: where it is rendered and which components render it */
+export interface GrabbedElement {
+	/** CSS selector that finds the element again */
+	selector?: string;
+	tagName: string;
+	componentName: string | null;
+	htmlPreview: string;
+	/** Innermost component first */
+	stack: StackEntry[];
+}
+
+/** An accessibility finding, without its DOM element */
+export type A11yContextIssue = Omit<A11yIssue, 'element'>;
+
+export interface A11yContext extends Omit<A11yReport, 'critical' | 'warnings'> {
+	critical: A11yContextIssue[];
+	warnings: A11yContextIssue[];
+}
+
+export interface StyleContext {
+	elementTag: string;
+	file?: string;
+	line?: number;
+	categories: StyleCategory[];
+	conflicts: StyleConflict[];
+	inlineStyles: Record<string, string>;
+}
+
+export interface ProfileContext {
+	durationMs: number;
+	profiles: ComponentProfile[];
+	bursts: RenderBurst[];
+}
+
+/** Machine-readable context. Each field is present when the grab or tool produced it. */
+export interface StructuredContext {
+	elements?: GrabbedElement[];
+	a11y?: A11yContext;
+	styles?: StyleContext;
+	errors?: CapturedError[];
+	profile?: ProfileContext;
+}
+
+/** Largest screenshot the server accepts, in bytes of image data */
+export const MAX_SCREENSHOT_BYTES = 2 * 1024 * 1024;
+
+/** Most screenshots the server accepts in one envelope or command result */
+export const MAX_SCREENSHOTS = 4;
+
+/** An element screenshot, sent to the agent as MCP image content */
+export interface ContextScreenshot {
+	/** `before`: taken when the element was grabbed. `after`: taken on request, once the agent made its change */
+	label: 'before' | 'after';
+	mimeType: 'image/png' | 'image/jpeg';
+	/** Base64 image data, without the `data:` URL prefix */
+	data: string;
+	/** CSS selector of the pictured element */
+	selector?: string;
+}
+
+/**
+ * Size in bytes of base64-encoded data.
+ */
+export function base64ByteLength(data: string): number {
+	const padding = data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0;
+	return Math.floor(data.length * 3 / 4) - padding;
+}
+
+/** Body the browser POSTs to /context */
+export interface ContextEnvelope {
+	version: typeof CONTEXT_PAYLOAD_VERSION;
+	/**
+	 * Project root of the page, else its origin. One MCP server keeps context per project,
+	 * so several apps can share it. Pages pass the same value as `?project=` on /events.
+	 */
+	project?: string;
+	/** Text rendering of the context, as copied to the clipboard */
+	content: string[];
+	prompt?: string;
+	/** Tool that produced the context (A11yReporter, StyleGrab, ...), when not a plain grab */
+	toolName?: string;
+	data: StructuredContext;
+	/** At most `MAX_SCREENSHOTS`, each at most `MAX_SCREENSHOT_BYTES` */
+	screenshots?: ContextScreenshot[];
+}
+
+/** Grab the first element matching `selector` and return its agent context */
+export interface GrabElementCommand {
+	type: 'grab-element';
+	selector: string;
+}
+
+/** Run an accessibility audit on a page region (default: the whole body) */
+export interface A11yAuditCommand {
+	type: 'a11y-audit';
+	selector?: string;
+	/** Audit descendants too, not only the element itself. Default: true */
+	includeSubtree?: boolean;
+}
+
+/** Capture computed styles, sources and conflicts for an element */
+export interface CaptureStylesCommand {
+	type: 'capture-styles';
+	selector: string;
+}
+
+/** Record renders for `durationMs` and return the profiler report */
+export interface ProfileRendersCommand {
+	type: 'profile-renders';
+	durationMs: number;
+}
+
+/** Take an `after` screenshot of an element */
+export interface CaptureScreenshotCommand {
+	type: 'capture-screenshot';
+	selector: string;
+}
+
+export type BrowserCommand =
+	| GrabElementCommand
+	| A11yAuditCommand
+	| CaptureStylesCommand
+	| ProfileRendersCommand
+	| CaptureScreenshotCommand;
+
+/** Payload of a `command` SSE event */
+export type BrowserCommandMessage = BrowserCommand & { id: string };
+
+/** What a browser command produced: a text rendering and the same data as JSON */
+export interface BrowserCommandOutput {
+	text: string;
+	data: StructuredContext;
+	screenshots?: ContextScreenshot[];
+}
+
+/** Body the page POSTs to /command-result */
+export type BrowserCommandResult =
+	| { id: string; ok: true; result: string; data?: StructuredContext; screenshots?: ContextScreenshot[] }
+	| { id: string; ok: false; error: string };
+
+/** Longest profiling session the server will request */
+export const MAX_PROFILE_DURATION_MS = 60_000;
+
+/** Payload of an `agent-done` SSE event, sent when the agent calls `report_result` */
+export interface McpAgentDoneEvent {
+	/** Session history entry (grab) the result belongs to */
+	id: string;
+	status: 'success' | 'failure';
+	summary: string;
+	files: ChangedFile[];
+}
+
+/** Where a task stands. Grabs sent with a prompt start as `pending` */
+export type McpTaskStatus = 'pending' | 'in-progress' | 'done' | 'failed';
+
+/** A grab and its instruction, queued until an agent works on it */
+export interface McpTask {
+	/** Session ID of the grab */
+	id: string;
+	project: string;
+	prompt: string;
+	/** Short description of the grabbed element, e.g. "<button> in Header" */
+	label: string;
+	status: McpTaskStatus;
+	createdAt: number;
+	startedAt?: number;
+	finishedAt?: number;
+	/** Summary the agent reported */
+	summary?: string;
+}
+
+/** Payload of a `queue` SSE event: the project's tasks, in queue order */
+export interface McpQueueEvent {
+	tasks: McpTask[];
+}
+
+/** Body the page POSTs to /queue. Only pending tasks can be moved or cancelled */
+export type McpQueueAction =
+	/** Move a task to `position` (0-based) among its project's pending tasks */
+	| { action: 'move'; id: string; position: number }
+	| { action: 'cancel'; id: string };
@@ -0,0 +1,379 @@
+/**
+ * WebSocket relay protocol message types and runtime validation.
+ * Shared between the browser client (AgentClient), the relay server,
+ * and remote handlers connected via connectToRelay().
+ *
+ * Must stay free of DOM and Node APIs — it is compiled into both bundles.
+ */
+
+/**
+ * Current protocol version. Bump on any breaking change to message shapes.
+ * Clients announce it in `health` and `register-handler`; the relay rejects mismatches.
+ */
+export const RELAY_PROTOCOL_VERSION = 1;
+
+/**
+ * Structured error codes carried by `agent-error` messages.
+ */
+export type RelayErrorCode =
+	/** Message was not valid JSON */
+	| 'invalid-json'
+	/** Message had a known type but missing or mistyped fields */
+	| 'invalid-message'
+	/** Message type is not part of the protocol */
+	| 'unknown-message-type'
+	/** Peer speaks a different protocol version */
+	| 'unsupported-version'
+	/** Requested agent is not registered on the relay */
+	| 'unknown-agent'
+	/** Follow-up message referenced a session with no previous request */
+	| 'no-session'
+	/** The remote handler serving the session went away */
+	| 'handler-disconnected'
+	/** The agent itself reported a failure */
+	| 'agent-failed'
+	/** Undo/redo requested but the session has no checkpoint to restore */
+	| 'no-checkpoint'
+	/** Undo/redo refused because the files changed since the checkpoint */
+	| 'checkpoint-conflict';
+
+/**
+ * Structured progress event emitted by an agent while it works.
+ * Paths are as reported by the agent (usually relative to the project root).
+ */
+export type AgentEvent =
+	| { kind: 'tool-call'; tool: string; summary?: string }
+	| { kind: 'file-read'; path: string }
+	| { kind: 'file-edit'; path: string; startLine?: number; endLine?: number }
+	| { kind: 'token-usage'; inputTokens: number; outputTokens: number };
+
+/**
+ * A file changed by an agent run, or restored by undo/redo.
+ * Paths are relative to the git repository root.
+ */
+export interface ChangedFile {
+	path: string;
+	status: 'added' | 'modified' | 'deleted';
+}
+
+/**
+ * Lifecycle of a queued request. Requests for the same session run one at a
+ * time, and each provider runs a limited number of requests at once.
+ */
+export type RelayQueueState = 'queued' | 'running' | 'cancelled';
+
+export interface RelayAgentContext {
+	content: string[];
+	prompt: string;
+	selectedCount: number;
+}
+
+// Client -> Server messages
+export interface AgentRequestMessage {
+	type: 'agent-request';
+	agentId: string;
+	sessionId: string;
+	context: RelayAgentContext;
+	/** Client-chosen ID echoed in `agent-queue` updates. Generated by the relay when missing. */
+	requestId?: string;
+}
+
+export interface AgentAbortMessage {
+	type: 'agent-abort';
+	sessionId: string;
+}
+
+export interface AgentUndoMessage {
+	type: 'agent-undo';
+	sessionId: string;
+	requestId?: string;
+}
+
+export interface AgentRedoMessage {
+	type: 'agent-redo';
+	sessionId: string;
+	requestId?: string;
+}
+
+export interface AgentResumeMessage {
+	type: 'agent-resume';
+	sessionId: string;
+	prompt: string;
+	requestId?: string;
+}
+
+export interface AgentRetryMessage {
+	type: 'agent-retry';
+	sessionId: string;
+	requestId?: string;
+}
+
+/**
+ * Cancel queued (not yet running) requests for a session.
+ * Without `requestId`, every queued request of the session is cancelled.
+ */
+export interface AgentCancelMessage {
+	type: 'agent-cancel';
+	sessionId: string;
+	requestId?: string;
+}
+
+export interface HealthMessage {
+	type: 'health';
+	/** Protocol version spoken by the client. Missing means a pre-versioning bundle. */
+	protocolVersion?: number;
+}
+
+/**
+ * Receive every status/event/queue/done/error message of a session, e.g. from a second tab.
+ * The relay first replays the session's buffered messages, then sends `agent-subscribed`.
+ */
+export interface AgentSubscribeMessage {
+	type: 'agent-subscribe';
+	sessionId: string;
+	/** `seq` of the last message already received; only later messages are replayed */
+	since?: number;
+}
+
+export interface AgentUnsubscribeMessage {
+	type: 'agent-unsubscribe';
+	sessionId: string;
+}
+
+export type ClientMessage =
+	| AgentRequestMessage
+	| AgentAbortMessage
+	| AgentUndoMessage
+	| AgentRedoMessage
+	| AgentResumeMessage
+	| AgentRetryMessage
+	| AgentCancelMessage
+	| AgentSubscribeMessage
+	| AgentUnsubscribeMessage
+	| HealthMessage;
+
+// Server -> Client messages
+export interface AgentStatusMessage {
+	type: 'agent-status';
+	sessionId: string;
+	message: string;
+}
+
+export interface AgentEventMessage {
+	type: 'agent-event';
+	sessionId: string;
+	event: AgentEvent;
+}
+
+export interface AgentQueueMessage {
+	type: 'agent-queue';
+	sessionId: string;
+	requestId: string;
+	state: RelayQueueState;
+	/** 1-based position among waiting requests, when `state` is 'queued' */
+	position?: number;
+}
+
+export interface AgentDoneMessage {
+	type: 'agent-done';
+	sessionId: string;
+	result: string;
+	/** Files the run changed (or undo/redo restored), when the relay takes file checkpoints */
+	files?: ChangedFile[];
+}
+
+export interface AgentErrorMessage {
+	type: 'agent-error';
+	/** Empty when the error is not tied to a session (e.g. a malformed message) */
+	sessionId: string;
+	error: string;
+	code: RelayErrorCode;
+}
+
+export interface HandlersMessage {
+	type: 'handlers';
+	agents: string[];
+}
+
+export interface HealthResponseMessage {
+	type: 'health';
+	status: 'ok';
+	agents: string[];
+	protocolVersion: number;
+}
+
+/**
+ * Sent after a subscription's replay, with the number of buffered messages replayed.
+ */
+export interface AgentSubscribedMessage {
+	type: 'agent-subscribed';
+	sessionId: string;
+	replayed: number;
+}
+
+/**
+ * Messages about one session. Delivered to all of its subscribers and buffered for replay.
+ */
+export type AgentSessionMessage = (AgentStatusMessage | AgentEventMessage | AgentQueueMessage | AgentDoneMessage | AgentErrorMessage) & {
+	/** Set by the relay when published; increases with every message */
+	seq?: number;
+};
+
+export type ServerMessage = AgentSessionMessage | AgentSubscribedMessage | HandlersMessage | HealthResponseMessage;
+
+// Remote handler <-> Server messages (see connectToRelay)
+
+/**
+ * Sent by an external provider process to register itself as a handler.
+ */
+export interface RegisterHandlerMessage {
+	type: 'register-handler';
+	agentId: string;
+	protocolVersion?: number;
+}
+
+/**
+ * Sent by an external provider process to stop serving requests.
+ */
+export interface UnregisterHandlerMessage {
+	type: 'unregister-handler';
+	agentId: string;
+}
+
+/**
+ * Sent by the server to a remote handler to invoke a provider method.
+ */
+export interface InvokeHandlerMessage {
+	type: 'invoke-handler';
+	method: 'run' | 'abort' | 'undo' | 'redo' | 'resume';
+	sessionId: string;
+	payload?: {
+		content?: string[];
+		prompt?: string;
+		selectedCount?: number;
+	};
+}
+
+/**
+ * Replies from a remote handler reuse the server -> client shapes.
+ * `code` may be missing on errors from handlers built before versioning.
+ */
+export type HandlerMessage =
+	| RegisterHandlerMessage
+	| UnregisterHandlerMessage
+	| AgentStatusMessage
+	| AgentEventMessage
+	| AgentDoneMessage
+	| (Omit<AgentErrorMessage, 'code'> & { code?: RelayErrorCode });
+
+/** Any message the relay server may receive */
+export type RelayInboundMessage = ClientMessage | HandlerMessage;
+
+// ============================================================
+// Runtime validation
+// ============================================================
+
+export type RelayParseResult =
+	| { ok: true; message: RelayInboundMessage }
+	| { ok: false; code: RelayErrorCode; error: string; sessionId: string };
+
+function isString(value: unknown): value is string {
+	return typeof value === 'string';
+}
+
+function isOptionalString(value: unknown): boolean {
+	return value === undefined || isString(value);
+}
+
+function isOptionalInteger(value: unknown): boolean {
+	return value === undefined || (typeof value === 'number' && Number.isInteger(value));
+}
+
+function isAgentContext(value: unknown): value is RelayAgentContext {
+	if (typeof value !== 'object' || value === null) return false;
+	const ctx = value as Record<string, unknown>;
+	return Array.isArray(ctx.content)
+		&& ctx.content.every(isString)
+		&& isString(ctx.prompt)
+		&& typeof ctx.selectedCount === 'number';
+}
+
+function isAgentEvent(value: unknown): value is AgentEvent {
+	if (typeof value !== 'object' || value === null) return false;
+	const event = value as Record<string, unknown>;
+	switch (event.kind) {
+		case 'tool-call':
+			return isString(event.tool) && (event.summary === undefined || isString(event.summary));
+		case 'file-read':
+			return isString(event.path);
+		case 'file-edit':
+			return isString(event.path) && isOptionalInteger(event.startLine) && isOptionalInteger(event.endLine);
+		case 'token-usage':
+			return typeof event.inputTokens === 'number' && typeof event.outputTokens === 'number';
+		default:
+			return false;
+	}
+}
+
+const INBOUND_VALIDATORS: Record<RelayInboundMessage['type'], (msg: Record<string, unknown>) => boolean> = {
+	'agent-request': (msg) => isString(msg.agentId) && isString(msg.sessionId) && isAgentContext(msg.context)
+		&& isOptionalString(msg.requestId),
+	'agent-abort': (msg) => isString(msg.sessionId),
+	'agent-undo': (msg) => isString(msg.sessionId) && isOptionalString(msg.requestId),
+	'agent-redo': (msg) => isString(msg.sessionId) && isOptionalString(msg.requestId),
+	'agent-resume': (msg) => isString(msg.sessionId) && isString(msg.prompt) && isOptionalString(msg.requestId),
+	'agent-retry': (msg) => isString(msg.sessionId) && isOptionalString(msg.requestId),
+	'agent-cancel': (msg) => isString(msg.sessionId) && isOptionalString(msg.requestId),
+	'agent-subscribe': (msg) => isString(msg.sessionId) && isOptionalInteger(msg.since),
+	'agent-unsubscribe': (msg) => isString(msg.sessionId),
+	'health': (msg) => isOptionalInteger(msg.protocolVersion),
+	'register-handler': (msg) => isString(msg.agentId) && isOptionalInteger(msg.protocolVersion),
+	'unregister-handler': (msg) => isString(msg.agentId),
+	'agent-status': (msg) => isString(msg.sessionId) && isString(msg.message),
+	'agent-event': (msg) => isString(msg.sessionId) && isAgentEvent(msg.event),
+	'agent-done': (msg) => isString(msg.sessionId) && isString(msg.result),
+	'agent-error': (msg) => isString(msg.sessionId) && isString(msg.error) && isOptionalString(msg.code)
+};
+
+/**
+ * Parse and validate a raw message received by the relay.
+ * On failure, returns an error code and the message's sessionId when one could be read.
+ */
+export function parseRelayMessage(raw: string): RelayParseResult {
+	let data: unknown;
+	try {
+		data = JSON.parse(raw);
+	} catch {
+		return { ok: false, code: 'invalid-json', error: 'Message is not valid JSON', sessionId: '' };
+	}
+
+	if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+		return { ok: false, code: 'invalid-message', error: 'Message must be a JSON object', sessionId: '' };
+	}
+
+	const msg = data as Record<string, unknown>;
+	const sessionId = isString(msg.sessionId) ? msg.sessionId : '';
+
+	if (!isString(msg.type) || !Object.hasOwn(INBOUND_VALIDATORS, msg.type)) {
+		return {
+			ok: false,
+			code: 'unknown-message-type',
+			error: `Unknown message type: ${String(msg.type)}`,
+			sessionId
+		};
+	}
+
+	const type = msg.type as RelayInboundMessage['type'];
+	if (!INBOUND_VALIDATORS[type](msg)) {
+		return { ok: false, code: 'invalid-message', error: `Malformed "${type}" message`, sessionId };
+	}
+
+	return { ok: true, message: msg as unknown as RelayInboundMessage };
+}
+
+/**
+ * Check whether a peer's announced protocol version is compatible with ours.
+ */
+export function isCompatibleProtocolVersion(version: number | undefined): boolean {
+	return version === RELAY_PROTOCOL_VERSION;
+}
@@ -13,11 +13,14 @@ export const SveltePropsTracer = noop;
 export const SvelteA11yReporter = noop;
 export const SvelteErrorContext = noop;
 export const SvelteRenderProfiler = noop;
+export const SvelteComponentTree = noop;
 export const SvelteDevKit = noop;
 
 // Core utilities (already SSR-safe)
 export { PluginRegistry } from './core/plugin-registry.js';
 export { createGlobalAPI, destroyGlobalAPI } from './core/global-api.js';
+// Instrumented components (svelte-grab/vite) call this during SSR too
+export { trackComponentState } from './utils/rune-state.js';
 
 // Types
 export type {
@@ -73,6 +76,10 @@ export type {
 	ComponentProfile,
 	RenderBurst,
 
+	// ComponentTree types
+	SvelteComponentTreeProps,
+	ComponentTreeNode,
+
 	// DevKit types
 	SvelteDevKitProps,
 	DevKitTool
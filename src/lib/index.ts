@@ -6,12 +6,15 @@ export { default as SveltePropsTracer } from './SveltePropsTracer.svelte';
 export { default as SvelteA11yReporter } from './SvelteA11yReporter.svelte';
 export { default as SvelteErrorContext } from './SvelteErrorContext.svelte';
 export { default as SvelteRenderProfiler } from './SvelteRenderProfiler.svelte';
+export { default as SvelteComponentTree } from './SvelteComponentTree.svelte';
 export { default as SvelteDevKit } from './SvelteDevKit.svelte';
 
 // Core utilities (for advanced users)
 export { PluginRegistry } from './core/plugin-registry.js';
 export { createGlobalAPI, destroyGlobalAPI } from './core/global-api.js';
 export { inspectable, uninspectable } from './utils/inspectable.js';
+// Called by components instrumented by svelte-grab/vite
+export { trackComponentState } from './utils/rune-state.js';
 
 // Types
 export type {
@@ -40,6 +43,7 @@ export type {
 	ChildComponentInfo,
 	StateSnapshot,
 	StateDiff,
+	StateTimelineEntry,
 
 	// StyleGrab types
 	SvelteStyleGrabProps,
@@ -53,6 +57,9 @@ export type {
 	SveltePropsTracerProps,
 	PropTrace,
 	PropTraceNode,
+	PassedProp,
+	PropOriginTrace,
+	PropOrigin,
 
 	// A11yReporter types
 	SvelteA11yReporterProps,
@@ -70,7 +77,32 @@ export type {
 	ComponentProfile,
 	RenderBurst,
 
+	// ComponentTree types
+	SvelteComponentTreeProps,
+	ComponentTreeNode,
+
 	// DevKit types
 	SvelteDevKitProps,
 	DevKitTool
 } from './types.js';
+export type { AgentEvent, ChangedFile } from './core/relay-protocol.js';
+export type {
+	BrowserCommand,
+	BrowserCommandMessage,
+	BrowserCommandResult,
+	BrowserCommandOutput,
+	McpAgentDoneEvent,
+	McpTask,
+	McpTaskStatus,
+	McpQueueEvent,
+	McpQueueAction,
+	ContextEnvelope,
+	ContextScreenshot,
+	StructuredContext,
+	GrabbedElement,
+	A11yContext,
+	A11yContextIssue,
+	StyleContext,
+	ProfileContext
+} from './core/mcp-protocol.js';
+export { CONTEXT_PAYLOAD_VERSION } from './core/mcp-protocol.js';
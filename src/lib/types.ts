@@ -1,3 +1,8 @@
+import type { BrowserCommand, BrowserCommandOutput } from './core/mcp-protocol.js';
+import type { PropOrigin, PropSource } from './utils/rune-state.js';
+
+export type { PropOrigin, PropSource };
+
 /**
  * Svelte internal metadata attached to elements in dev mode
  */
@@ -18,6 +23,8 @@ export interface DevStackEntry {
 	file?: string;
 	line?: number;
 	column?: number;
+	/** Tag name of the component rendered at this location (component entries) */
+	componentTag?: string;
 	parent?: DevStackEntry;
 }
 
@@ -102,6 +109,8 @@ export interface SvelteGrabProps {
 	agentRelayUrl?: string;
 	/** Agent ID to use for relay requests. Default: 'claude-code' */
 	agentId?: string;
+	/** Join a shared relay session (same ID in several tabs) to see its activity everywhere. Default: a new session per tab */
+	agentSessionId?: string;
 	/** Enable arrow key navigation in selection mode. Default: true */
 	enableArrowNav?: boolean;
 	/** Enable click+drag box selection. Default: true */
@@ -110,6 +119,12 @@ export interface SvelteGrabProps {
 	enableMcp?: boolean;
 	/** Port for MCP HTTP server. Default: 4723 */
 	mcpPort?: number;
+	/** Base URL of the MCP endpoints, e.g. 'http://localhost:5173/__svelte-grab'. Set by the `svelte-grab/vite` plugin; replaces `mcpPort` and port discovery */
+	mcpUrl?: string;
+	/** Attach a screenshot of the grabbed element when sending to the MCP server (requires html-to-image). Default: false */
+	mcpScreenshots?: boolean;
+	/** Shared secret for the relay and MCP server (`VITE_SVELTE_GRAB_TOKEN` written by `svelte-grab init`) */
+	authToken?: string;
 	/** Freeze CSS animations/transitions while selection mode is active. Default: true */
 	freezeAnimations?: boolean;
 	/** Freeze :hover/:focus pseudo-states while selection mode is active. Default: true */
@@ -139,6 +154,10 @@ export interface ComponentStateInfo {
 	dataAttributes: Record<string, string>;
 	boundValues: Record<string, unknown>;
 	inspectableState?: Record<string, unknown>;
+	/** Keys of `props` and `boundValues` read from the instance's runes. Set when svelte-grab/vite instrumented the component */
+	runes?: { props: string[]; state: string[]; derived: string[] };
+	/** Keys the popup can edit: instrumented `let` props and `$state`, and inspectable() values with a setter */
+	editable?: { props: string[]; boundValues: string[]; inspectableState: string[] };
 	childComponentCount: number;
 	childComponents: ChildComponentInfo[];
 	elementTag: string;
@@ -157,6 +176,19 @@ export interface StateDiff {
 	newValue: unknown;
 }
 
+/**
+ * One recorded change in SvelteStateGrab's state timeline
+ */
+export interface StateTimelineEntry {
+	timestamp: number;
+	/** User event (or popup edit) shortly before the change, e.g. `click on <button>` */
+	trigger?: string;
+	/** Cloned state, keyed like snapshots (`props.x`, `bound.x`, `state.x`) */
+	state: Record<string, unknown>;
+	/** Path-level changes since the previous entry. Empty for the first one */
+	diffs: StateDiff[];
+}
+
 export interface SvelteStateGrabProps {
 	/** Primary modifier key to activate state inspection. Default: 'alt' */
 	modifier?: 'alt' | 'ctrl' | 'meta' | 'shift';
@@ -176,6 +208,8 @@ export interface SvelteStateGrabProps {
 	maxStringLength?: number;
 	/** Maximum number of state snapshots to keep. Default: 5 */
 	maxSnapshots?: number;
+	/** Maximum number of changes kept while recording a state timeline. Default: 200 */
+	maxTimelineEntries?: number;
 }
 
 // ============================================================
@@ -245,12 +279,38 @@ export interface PropTraceNode {
 	componentName: string | null;
 	depth: number;
 	propsProxy?: Record<string, string>;
+	/** Dev stack entry type ('component', 'if', 'each', ...); unset for element locations */
+	type?: string;
+	/** For component entries: the tag rendered at this location */
+	componentTag?: string;
+	/** For component entries in files instrumented by svelte-grab/vite: what the tag passes */
+	passedProps?: PassedProp[];
+}
+
+/** A prop passed at a call site, with the value the child instance received */
+export interface PassedProp extends PropSource {
+	name: string;
+	value?: unknown;
+}
+
+/** Where a prop of the traced component comes from, following forwarded props up the chain */
+export interface PropOriginTrace {
+	prop: string;
+	origin: PropOrigin;
+	/** Source expression at the call site where the value originates */
+	expression: string;
+	/** Index into `PropTrace.chain` of that call site */
+	nodeIndex: number;
+	/** Prop names along the way, from the traced component upward */
+	path: string[];
 }
 
 export interface PropTrace {
 	chain: PropTraceNode[];
 	elementTag: string;
 	elementPreview: string;
+	/** Set when the component's parent was instrumented */
+	origins?: PropOriginTrace[];
 }
 
 export interface SveltePropsTracerProps {
@@ -409,11 +469,37 @@ export interface SvelteRenderProfilerProps {
 	burstWindow?: number;
 }
 
+// ============================================================
+// Svelte-Component-Tree Types
+// ============================================================
+
+/** Mounted instances of one component file under the same parent */
+export interface ComponentTreeNode {
+	name: string;
+	file: string;
+	/** Number of mounted instances */
+	count: number;
+	/** Top-level elements the instances render, for highlighting and grabbing */
+	elements: HTMLElement[];
+	children: ComponentTreeNode[];
+}
+
+export interface SvelteComponentTreeProps {
+	/** Primary modifier key to toggle the panel (with T). Default: 'alt' */
+	modifier?: 'alt' | 'ctrl' | 'meta' | 'shift';
+	/** Force enable even if Svelte dev metadata is not detected. Default: false */
+	forceEnable?: boolean;
+	/** Custom theme color overrides, applied on top of the light/dark preset. */
+	theme?: ThemeConfig;
+	/** Use the light theme preset instead of dark. Default: false */
+	lightTheme?: boolean;
+}
+
 // ============================================================
 // SvelteDevKit Types
 // ============================================================
 
-export type DevKitTool = 'grab' | 'state' | 'style' | 'props' | 'a11y' | 'errors' | 'profiler';
+export type DevKitTool = 'grab' | 'state' | 'style' | 'props' | 'a11y' | 'errors' | 'profiler' | 'tree';
 
 export interface SvelteDevKitProps {
 	modifier?: 'alt' | 'ctrl' | 'meta' | 'shift';
@@ -437,6 +523,8 @@ export interface SvelteDevKitProps {
 	agentRelayUrl?: string;
 	/** Agent ID to use for relay requests. Default: 'claude-code' */
 	agentId?: string;
+	/** Join a shared relay session (same ID in several tabs) to see its activity everywhere. Default: a new session per tab */
+	agentSessionId?: string;
 	/** Enable arrow key navigation in selection mode. Default: true */
 	enableArrowNav?: boolean;
 	/** Enable click+drag box selection. Default: true */
@@ -445,6 +533,12 @@ export interface SvelteDevKitProps {
 	enableMcp?: boolean;
 	/** Port for MCP HTTP server. Default: 4723 */
 	mcpPort?: number;
+	/** Base URL of the MCP endpoints, e.g. 'http://localhost:5173/__svelte-grab'. Set by the `svelte-grab/vite` plugin; replaces `mcpPort` and port discovery */
+	mcpUrl?: string;
+	/** Attach a screenshot of the grabbed element when sending to the MCP server (requires html-to-image). Default: false */
+	mcpScreenshots?: boolean;
+	/** Shared secret for the relay and MCP server (`VITE_SVELTE_GRAB_TOKEN` written by `svelte-grab init`) */
+	authToken?: string;
 
 	// SvelteGrab props forwarding
 	/** Auto-copy format when element is grabbed. Default: 'agent' */
@@ -471,6 +565,8 @@ export interface SvelteDevKitProps {
 	styleSecondaryModifier?: 'shift' | 'ctrl' | 'meta';
 	/** Maximum number of state snapshots. Default: 5 */
 	maxSnapshots?: number;
+	/** Maximum number of recorded state timeline changes. Default: 200 */
+	maxTimelineEntries?: number;
 	/** Profile duration in seconds. Default: 10 */
 	profileDuration?: number;
 	/** Minimum mutations to trigger burst detection. Default: 20 */
@@ -646,4 +742,18 @@ export interface SvelteGrabAPI {
 	getSelectedElements: () => HTMLElement[];
 	/** Clear current selection */
 	clearSelection: () => void;
+	/** Grab an element as if it were clicked: copy its context, add it to history and show the popup. False when it has no component stack */
+	grabElement: (element: HTMLElement) => boolean;
+	/** Open a file in the configured editor */
+	openInEditor: (file: string, line: number) => void;
+	/** Grab the first element matching a CSS selector. Returns its agent context, or null when nothing matches */
+	grabSelector: (selector: string) => string | null;
+	/** Run an accessibility audit on the element matching `selector` (default: body). Null when nothing matches */
+	auditA11y: (selector?: string, includeSubtree?: boolean) => string | null;
+	/** Analyze computed styles of the element matching `selector`. Null when nothing matches */
+	inspectStyles: (selector: string) => string | null;
+	/** Record renders for `durationMs` and return the profiler report */
+	profileRenders: (durationMs: number) => Promise<string>;
+	/** Run a browser command sent by the MCP server. Resolves with text and JSON data; rejects when the command cannot run */
+	runCommand: (command: BrowserCommand) => Promise<BrowserCommandOutput>;
 }
@@ -1,4 +1,5 @@
 import type { A11yIssue, A11yReport } from '../types.js';
+import type { A11yContext } from '../core/mcp-protocol.js';
 import { shortenPath, type SvelteElement } from './shared.js';
 
 /**
@@ -923,6 +924,18 @@ export function analyzeA11y(element: HTMLElement, includeSubtree: boolean): A11y
 	};
 }
 
+/**
+ * Convert a report to plain JSON data (drops the DOM element of each issue)
+ */
+export function toA11yContext(report: A11yReport): A11yContext {
+	const strip = ({ element: _element, ...issue }: A11yIssue) => issue;
+	return {
+		...report,
+		critical: report.critical.map(strip),
+		warnings: report.warnings.map(strip)
+	};
+}
+
 /**
  * Format A11y report as text for LLM
  */
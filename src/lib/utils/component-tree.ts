@@ -0,0 +1,109 @@
+/**
+ * Builds the page's component tree from Svelte's dev metadata, for SvelteComponentTree.
+ *
+ * Every element created in dev mode carries `__svelte_meta.parent`, the dev
+ * stack when it was created. Svelte pushes a new `component` entry each time it
+ * instantiates a component, so each entry object is one mounted instance,
+ * located at the component tag in its parent's file.
+ */
+
+import type { ComponentTreeNode, DevStackEntry } from '../types.js';
+import { type SvelteElement, extractComponentName, isExcludedPath, shortenPath } from './shared.js';
+
+interface Instance {
+	file: string;
+	/** Top-level elements rendered by the instance itself */
+	elements: HTMLElement[];
+	/** Keyed by the instance's dev stack entry (the root file for roots) */
+	children: Map<DevStackEntry | string, Instance>;
+}
+
+/**
+ * Component tree of everything mounted under `root`. Instances are grouped by
+ * component file under each parent; components in excluded paths
+ * (node_modules, .svelte-kit) are skipped and their children moved up.
+ *
+ * @param ignore - Elements to leave out, e.g. the panel showing the tree
+ */
+export function buildComponentTree(root: Element = document.body, ignore?: (element: Element) => boolean): ComponentTreeNode[] {
+	const top: Instance = { file: '', elements: [], children: new Map() };
+
+	for (const element of root.querySelectorAll<HTMLElement>('*')) {
+		const meta = (element as SvelteElement).__svelte_meta;
+		if (!meta?.loc || ignore?.(element)) continue;
+
+		// Component entries, innermost first. Entry i renders the file of entry i - 1,
+		// the innermost one renders the element's own file
+		const entries: DevStackEntry[] = [];
+		for (let entry = meta.parent; entry; entry = entry.parent) {
+			if (entry.type === 'component' && entry.file) entries.push(entry);
+		}
+
+		const rootFile = entries.length > 0 ? entries[entries.length - 1].file! : meta.loc.file;
+		let instance = descend(top, rootFile, rootFile);
+		for (let i = entries.length - 1; i >= 0; i--) {
+			instance = descend(instance, entries[i], i > 0 ? entries[i - 1].file! : meta.loc.file);
+		}
+
+		if (!instance.elements.some(el => el.contains(element))) instance.elements.push(element);
+	}
+
+	return group([...top.children.values()]);
+}
+
+/** Child instance for `key`, or `parent` itself when the child's file is excluded */
+function descend(parent: Instance, key: DevStackEntry | string, file: string): Instance {
+	if (isExcludedPath(file)) return parent;
+	let child = parent.children.get(key);
+	if (!child) {
+		child = { file, elements: [], children: new Map() };
+		parent.children.set(key, child);
+	}
+	return child;
+}
+
+function group(instances: Instance[]): ComponentTreeNode[] {
+	const byFile = new Map<string, Instance[]>();
+	for (const instance of instances) {
+		const list = byFile.get(instance.file);
+		if (list) list.push(instance);
+		else byFile.set(instance.file, [instance]);
+	}
+
+	return [...byFile].map(([file, list]) => ({
+		name: extractComponentName(file) ?? shortenPath(file),
+		file,
+		count: list.length,
+		elements: list.flatMap(renderedElements),
+		children: group(list.flatMap(instance => [...instance.children.values()]))
+	}));
+}
+
+/** The instance's own elements, else those of its children (components that only wrap others) */
+function renderedElements(instance: Instance): HTMLElement[] {
+	if (instance.elements.length > 0) return instance.elements;
+	return [...instance.children.values()].flatMap(renderedElements);
+}
+
+/** Total instances in a tree */
+export function countInstances(nodes: ComponentTreeNode[]): number {
+	return nodes.reduce((sum, node) => sum + node.count + countInstances(node.children), 0);
+}
+
+/**
+ * Format the tree for LLM agents, one indented line per component
+ */
+export function formatComponentTree(nodes: ComponentTreeNode[]): string {
+	if (nodes.length === 0) return 'No mounted components found.';
+
+	const parts: string[] = [`=== Component Tree (${countInstances(nodes)} instances) ===\n`];
+	const walk = (list: ComponentTreeNode[], depth: number) => {
+		for (const node of list) {
+			const count = node.count > 1 ? ` (x${node.count})` : '';
+			parts.push(`${'  '.repeat(depth)}<${node.name}> ${shortenPath(node.file)}${count}`);
+			walk(node.children, depth + 1);
+		}
+	};
+	walk(nodes, 0);
+	return parts.join('\n');
+}
@@ -8,9 +8,12 @@
  *   $effect(() => { inspectable('MyCounter', { count, name }); });
  *
  * SvelteStateGrab will pick up values from this registry when inspecting components.
+ * Pass setters to make values editable from its popup:
+ *   $effect(() => { inspectable('MyCounter', { count, name }, { count: (v) => (count = v) }); });
  */
 
 const registry = new Map<string, Record<string, unknown>>();
+const setterRegistry = new Map<string, Record<string, (value: any) => void>>();
 
 /**
  * Register inspectable state for a component.
@@ -18,9 +21,12 @@ const registry = new Map<string, Record<string, unknown>>();
  *
  * @param id - Component identifier (typically the component name)
  * @param values - Object containing the state values to expose
+ * @param setters - Optional setters, by value key, that SvelteStateGrab uses to edit values
  */
-export function inspectable(id: string, values: Record<string, unknown>): void {
+export function inspectable(id: string, values: Record<string, unknown>, setters?: Record<string, (value: any) => void>): void {
 	registry.set(id, { ...values });
+	if (setters) setterRegistry.set(id, { ...setters });
+	else setterRegistry.delete(id);
 }
 
 /**
@@ -28,6 +34,7 @@ export function inspectable(id: string, values: Record<string, unknown>): void {
  */
 export function uninspectable(id: string): void {
 	registry.delete(id);
+	setterRegistry.delete(id);
 }
 
 /**
@@ -38,6 +45,24 @@ export function getInspectableState(id: string): Record<string, unknown> | undef
 	return registry.get(id);
 }
 
+/**
+ * Keys of a component's inspectable state that have a setter.
+ */
+export function getInspectableSetterKeys(id: string): string[] {
+	return Object.keys(setterRegistry.get(id) ?? {});
+}
+
+/**
+ * Write a value through the setter registered for it.
+ * Returns false if no setter was registered for the key.
+ */
+export function setInspectableValue(id: string, key: string, value: unknown): boolean {
+	const setter = setterRegistry.get(id)?.[key];
+	if (!setter) return false;
+	setter(value);
+	return true;
+}
+
 /**
  * Get all registered inspectable component IDs.
  */
@@ -50,4 +75,5 @@ export function getInspectableIds(): string[] {
  */
 export function clearInspectableRegistry(): void {
 	registry.clear();
+	setterRegistry.clear();
 }
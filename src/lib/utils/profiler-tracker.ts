@@ -1,4 +1,5 @@
 import type { RenderEvent, ComponentProfile, RenderBurst } from '../types.js';
+import type { ProfileContext } from '../core/mcp-protocol.js';
 import { type SvelteElement, shortenPath, extractComponentName } from './shared.js';
 
 /**
@@ -189,6 +190,17 @@ export class ProfilerTracker {
 		return (performance.now() - this.startTime) / 1000;
 	}
 
+	/**
+	 * Get the profiling session as plain JSON data
+	 */
+	getContext(): ProfileContext {
+		return {
+			durationMs: Math.round(this.getDuration() * 1000),
+			profiles: this.getProfiles(),
+			bursts: this.detectBursts()
+		};
+	}
+
 	/**
 	 * Get aggregated component profiles
 	 */
@@ -0,0 +1,178 @@
+/**
+ * Registry of component instance state, filled by the compile-time
+ * instrumentation in `svelte-grab/vite`.
+ *
+ * Each instrumented component calls `trackComponentState()` once per instance
+ * with a reader for its `$props()`, `$state` and `$derived` values and setters
+ * for its `let` declared props and `$state`, and the returned action is
+ * attached to the component's top-level elements.
+ * SvelteStateGrab resolves a clicked element to the nearest instance of the
+ * component that rendered it. The component's call sites (what each child
+ * component tag in its template passes) are registered along with it, for
+ * SveltePropsTracer. Not meant to be called by hand.
+ *
+ * The action text shifts the columns of whatever follows it on its line, so
+ * `__svelte_meta` columns go through `sourceColumn()` before they are shown
+ * or looked up.
+ */
+
+export interface RuneStateValues {
+	props: Record<string, unknown>;
+	state: Record<string, unknown>;
+	derived: Record<string, unknown>;
+}
+
+/** Assign a prop (overridden until the parent passes a new value) or a `$state` */
+export interface RuneStateSetters {
+	props: Record<string, (value: unknown) => void>;
+	state: Record<string, (value: unknown) => void>;
+}
+
+/** Where a prop value passed at a call site comes from, as far as the parent's source tells */
+export type PropOrigin = 'literal' | 'prop' | 'state' | 'derived' | 'store' | 'context' | 'import' | 'expression';
+
+export interface PropSource {
+	origin: PropOrigin;
+	/** Source at the call site, e.g. `count * 2` or `"primary"` */
+	expression: string;
+	/** For `prop` origins forwarding a single prop of the parent: its name */
+	from?: string;
+	/** Passed with `bind:` */
+	bound?: boolean;
+	/** Passed with `{...spread}` */
+	spread?: boolean;
+}
+
+/** A component tag in a template and the props it passes, by prop name (`...expression` for spreads) */
+export interface CallSite {
+	component: string;
+	props: Record<string, PropSource>;
+}
+
+interface TrackedInstance {
+	/** Component file, relative to the project root */
+	file: string;
+	read: () => RuneStateValues;
+	setters: RuneStateSetters;
+}
+
+/** `[column, length]` of each text the instrumentation inserted, by line, in the columns Svelte's dev stack reports */
+export type InsertedText = Record<string, [number, number][]>;
+
+interface InstrumentedFile {
+	/** Call sites by `line:column` of the tag in the component's source */
+	sites: Record<string, CallSite>;
+	inserted: InsertedText;
+}
+
+const instances = new WeakMap<Element, TrackedInstance>();
+/** By component file, relative to the project root */
+const files = new Map<string, InstrumentedFile>();
+
+/**
+ * Register a component instance. Returns the action the instrumentation puts
+ * on the instance's top-level elements.
+ *
+ * @param file - Component file, relative to the project root
+ * @param read - Returns the instance's current rune values
+ * @param setters - Assign the instance's writable props and `$state`
+ * @param sites - The component's call sites, keyed by `line:column`
+ * @param inserted - Where the instrumentation inserted text in the template
+ */
+export function trackComponentState(
+	file: string,
+	read: () => RuneStateValues,
+	setters: RuneStateSetters = { props: {}, state: {} },
+	sites: Record<string, CallSite> = {},
+	inserted: InsertedText = {}
+): (node: Element) => { destroy(): void } {
+	const instance: TrackedInstance = { file, read, setters };
+	// Same for every instance; after HMR the new module's entry replaces the old one
+	files.set(file, { sites, inserted });
+
+	return (node) => {
+		instances.set(node, instance);
+		return {
+			destroy() {
+				if (instances.get(node) === instance) instances.delete(node);
+			}
+		};
+	};
+}
+
+/**
+ * Current rune values of the instance of `file` that rendered `element`.
+ * Returns undefined when the component was not instrumented.
+ */
+export function getComponentState(element: Element, file: string): RuneStateValues | undefined {
+	const instance = findInstance(element, file);
+	if (!instance) return undefined;
+	try {
+		return instance.read();
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Props and `$state` keys that `setComponentState()` can assign.
+ */
+export function getWritableKeys(element: Element, file: string): { props: string[]; state: string[] } | undefined {
+	const instance = findInstance(element, file);
+	if (!instance) return undefined;
+	return { props: Object.keys(instance.setters.props), state: Object.keys(instance.setters.state) };
+}
+
+/**
+ * Assign a prop or `$state` of the instance of `file` that rendered `element`.
+ * Returns false when it is not writable (not instrumented, `const`, `$derived`, `...rest`).
+ */
+export function setComponentState(element: Element, file: string, kind: keyof RuneStateSetters, key: string, value: unknown): boolean {
+	const setter = findInstance(element, file)?.setters[kind][key];
+	if (!setter) return false;
+	setter(value);
+	return true;
+}
+
+/**
+ * The component tag at `line:column` of `file`, from a `component` entry of
+ * Svelte's dev stack (`__svelte_meta.parent`). Undefined when `file` was not instrumented.
+ */
+export function getCallSite(file: string, line: number, column: number): CallSite | undefined {
+	return findFile(file)?.sites[`${line}:${sourceColumn(file, line, column)}`];
+}
+
+/**
+ * Column in the component's source of a `line:column` from Svelte's dev stack
+ * (`__svelte_meta`), which counts the text the instrumentation inserted earlier
+ * on the line. Returned as is when `file` was not instrumented.
+ */
+export function sourceColumn(file: string, line: number, column: number): number {
+	let source = column;
+	for (const [at, length] of findFile(file)?.inserted[line] ?? []) {
+		if (column >= at + length) source -= length;
+	}
+	return source;
+}
+
+function findFile(file: string): InstrumentedFile | undefined {
+	for (const [instrumented, entry] of files) {
+		if (sameFile(instrumented, file)) return entry;
+	}
+	return undefined;
+}
+
+function findInstance(element: Element, file: string): TrackedInstance | undefined {
+	for (let el: Element | null = element; el; el = el.parentElement) {
+		const instance = instances.get(el);
+		if (instance && sameFile(instance.file, file)) return instance;
+	}
+	return undefined;
+}
+
+/** `__svelte_meta` paths may be absolute or relative to a different directory */
+function sameFile(a: string, b: string): boolean {
+	const x = a.replace(/\\/g, '/');
+	const y = b.replace(/\\/g, '/');
+	return x === y || x.endsWith(`/${y}`) || y.endsWith(`/${x}`);
+}
@@ -0,0 +1,57 @@
+/**
+ * Element screenshots for the MCP server.
+ *
+ * Renders an element with html-to-image and encodes it as a `ContextScreenshot`.
+ * Images over the server's size limit fall back to JPEG, then are dropped.
+ */
+
+import type { ContextScreenshot } from '../core/mcp-protocol.js';
+import { MAX_SCREENSHOT_BYTES, base64ByteLength } from '../core/mcp-protocol.js';
+
+/** The part of html-to-image used here */
+export interface ImageRenderer {
+	toPng(node: HTMLElement, options?: Record<string, unknown>): Promise<string>;
+	toJpeg(node: HTMLElement, options?: Record<string, unknown>): Promise<string>;
+}
+
+/**
+ * Split a `data:` URL into mime type and base64 data.
+ */
+function fromDataUrl(url: string): { mimeType: string; data: string } | null {
+	const match = url.match(/^data:([^;,]+);base64,(.*)$/);
+	return match ? { mimeType: match[1], data: match[2] } : null;
+}
+
+/**
+ * Screenshot an element. Returns null when rendering fails or the image
+ * stays over `MAX_SCREENSHOT_BYTES` even as JPEG.
+ */
+export async function encodeScreenshot(
+	renderer: ImageRenderer,
+	element: HTMLElement,
+	label: ContextScreenshot['label'],
+	selector?: string
+): Promise<ContextScreenshot | null> {
+	try {
+		const png = fromDataUrl(await renderer.toPng(element, { skipFonts: true, pixelRatio: 1 }));
+		if (png && base64ByteLength(png.data) <= MAX_SCREENSHOT_BYTES) {
+			return { label, mimeType: 'image/png', data: png.data, selector };
+		}
+
+		const jpeg = fromDataUrl(await renderer.toJpeg(element, {
+			skipFonts: true,
+			pixelRatio: 1,
+			quality: 0.7,
+			backgroundColor: '#ffffff'
+		}));
+		if (jpeg && base64ByteLength(jpeg.data) <= MAX_SCREENSHOT_BYTES) {
+			return { label, mimeType: 'image/jpeg', data: jpeg.data, selector };
+		}
+
+		console.warn(`[SvelteGrab] Screenshot of <${element.tagName.toLowerCase()}> is over ${MAX_SCREENSHOT_BYTES} bytes; not sent.`);
+		return null;
+	} catch (err) {
+		console.error('[SvelteGrab] Screenshot failed:', err);
+		return null;
+	}
+}
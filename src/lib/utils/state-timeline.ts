@@ -0,0 +1,85 @@
+/**
+ * Helpers for SvelteStateGrab's state timeline: frozen copies of state
+ * values and path-level diffs between them.
+ */
+
+import type { StateDiff } from '../types.js';
+
+/**
+ * Deep copy of a value as plain data, so later mutations of the live
+ * (possibly `$state` proxied) value don't rewrite recorded history.
+ * Functions, elements, Maps and Sets become the markers SvelteStateGrab displays.
+ */
+export function cloneState(value: unknown, maxDepth = 5): unknown {
+	const seen = new WeakSet<object>();
+
+	function clone(val: unknown, depth: number): unknown {
+		if (val === null || typeof val !== 'object') {
+			if (typeof val === 'function') return `[Function: ${val.name || 'anonymous'}]`;
+			if (typeof val === 'symbol') return `[Symbol: ${val.description ?? ''}]`;
+			if (typeof val === 'bigint') return `${val}n`;
+			return val;
+		}
+
+		if (val instanceof Date) return val.toISOString();
+		if (val instanceof RegExp) return val.toString();
+		if (val instanceof Error) return `[Error: ${val.message}]`;
+		if (val instanceof Promise) return '[Promise]';
+		if (typeof HTMLElement !== 'undefined' && val instanceof HTMLElement) {
+			return `[${val.tagName.toLowerCase()}${val.id ? '#' + val.id : ''}]`;
+		}
+
+		if (depth >= maxDepth) return '[max depth]';
+		if (seen.has(val)) return '[Circular]';
+		seen.add(val);
+
+		let result: unknown;
+		if (val instanceof Map) {
+			const entries: Record<string, unknown> = {};
+			val.forEach((v, k) => (entries[String(k)] = clone(v, depth + 1)));
+			result = { '[Map]': entries };
+		} else if (val instanceof Set) {
+			result = { '[Set]': [...val].map(v => clone(v, depth + 1)) };
+		} else if (Array.isArray(val)) {
+			result = val.map(v => clone(v, depth + 1));
+		} else {
+			const obj: Record<string, unknown> = {};
+			for (const key of Object.keys(val)) obj[key] = clone((val as Record<string, unknown>)[key], depth + 1);
+			result = obj;
+		}
+
+		// Shared references are fine, only cycles are cut
+		seen.delete(val);
+		return result;
+	}
+
+	return clone(value, 0);
+}
+
+/**
+ * Diff two cloned values down to the leaves. Keys are paths like
+ * `props.items[2].done`; added and removed paths have an undefined side.
+ */
+export function deepDiff(prev: unknown, curr: unknown, path = ''): StateDiff[] {
+	if (prev === curr) return [];
+
+	const prevIsArray = Array.isArray(prev);
+	if (isContainer(prev) && isContainer(curr) && prevIsArray === Array.isArray(curr)) {
+		const keys = prevIsArray
+			? Array.from({ length: Math.max((prev as unknown[]).length, (curr as unknown[]).length) }, (_, i) => i)
+			: [...new Set([...Object.keys(prev), ...Object.keys(curr)])];
+
+		return keys.flatMap(key => {
+			const childPath = typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+			const a = (prev as Record<string | number, unknown>)[key];
+			const b = (curr as Record<string | number, unknown>)[key];
+			return deepDiff(a, b, childPath);
+		});
+	}
+
+	return [{ key: path, oldValue: prev, newValue: curr }];
+}
+
+function isContainer(value: unknown): value is object {
+	return typeof value === 'object' && value !== null;
+}
@@ -1,11 +1,14 @@
 /**
  * Unified export store for all svelte-grab tools.
  *
- * Each tool registers its last formatForAgent() output here.
+ * Each tool registers its last formatForAgent() output here, along with the
+ * same data as JSON when it has a structured form.
  * The DevKit's "Copy All Context" (Alt+Shift+C) aggregates them.
  */
 
-const toolOutputs = new Map<string, { output: string; timestamp: number }>();
+import type { StructuredContext } from '../core/mcp-protocol.js';
+
+const toolOutputs = new Map<string, { output: string; data?: StructuredContext; timestamp: number }>();
 
 /**
  * Priority order for tool outputs.
@@ -18,6 +21,7 @@ const TOOL_PRIORITY: Record<string, number> = {
 	StyleGrab: 3,
 	PropsTracer: 4,
 	RenderProfiler: 5,
+	ComponentTree: 6,
 };
 
 /**
@@ -28,8 +32,15 @@ const MAX_EXPORT_CHARS = 16000;
 /**
  * Register the latest output from a tool.
  */
-export function registerToolOutput(toolName: string, output: string): void {
-	toolOutputs.set(toolName, { output, timestamp: Date.now() });
+export function registerToolOutput(toolName: string, output: string, data?: StructuredContext): void {
+	toolOutputs.set(toolName, { output, data, timestamp: Date.now() });
+}
+
+/**
+ * Get the structured data behind a tool's latest output.
+ */
+export function getToolData(toolName: string): StructuredContext | undefined {
+	return toolOutputs.get(toolName)?.data;
 }
 
 /**
@@ -101,6 +112,11 @@ function generateSummary(entries: { toolName: string; output: string }[]): strin
 				}
 				break;
 			}
+			case 'ComponentTree': {
+				const countMatch = output.match(/\((\d+) instances\)/);
+				summaryParts.push(`Tree: ${countMatch ? `${countMatch[1]} component instances` : 'captured'}`);
+				break;
+			}
 			default:
 				summaryParts.push(`${entry.toolName}: data captured`);
 		}
@@ -2,6 +2,8 @@
 
 import { startMcpServer } from './server.js';
 import { DEFAULT_MCP_PORT } from './constants.js';
+import { loadConfig } from '../cli/config.js';
+import { loadAuthToken } from '../utils/auth.js';
 
 const args = process.argv.slice(2);
 
@@ -9,7 +11,12 @@ const portArg = args.find((a) => a.startsWith('--port='));
 const port = portArg ? parseInt(portArg.split('=')[1], 10) : DEFAULT_MCP_PORT;
 const stdio = args.includes('--stdio');
 
-startMcpServer({ port, stdio }).catch((err) => {
+startMcpServer({
+	port,
+	stdio,
+	authToken: loadAuthToken() ?? undefined,
+	allowedOrigins: loadConfig()?.allowedOrigins
+}).catch((err) => {
 	console.error('[svelte-grab mcp] Failed to start:', err.message || err);
 	process.exit(1);
 });
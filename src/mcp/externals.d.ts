@@ -1,9 +1,22 @@
 declare module '@modelcontextprotocol/sdk/server/mcp.js' {
 	export class McpServer {
 		constructor(options: { name: string; version: string });
-		tool(name: string, description: string, schema: Record<string, unknown>, handler: () => Promise<{ content: { type: string; text: string }[] }>): void;
+		/** Low-level protocol server (capabilities, request handlers, notifications) */
+		readonly server: any;
+		tool(name: string, description: string, schema: Record<string, unknown>, handler: (args: any) => Promise<{ content: Array<{ type: 'text'; text: string } | { type: 'image'; data: string; mimeType: string }>; structuredContent?: Record<string, unknown>; isError?: boolean }>): void;
+		registerResource(name: string, uriOrTemplate: string | ResourceTemplate, metadata: Record<string, unknown>, read: (uri: URL, variables: any) => Promise<unknown>): unknown;
+		sendResourceListChanged(): void;
 		connect(transport: unknown): Promise<void>;
 	}
+
+	export class ResourceTemplate {
+		constructor(uriTemplate: string, callbacks: { list: (() => Promise<unknown>) | undefined });
+	}
+}
+
+declare module '@modelcontextprotocol/sdk/types.js' {
+	export const SubscribeRequestSchema: unknown;
+	export const UnsubscribeRequestSchema: unknown;
 }
 
 declare module '@modelcontextprotocol/sdk/server/streamableHttp.js' {
@@ -18,3 +31,7 @@ declare module '@modelcontextprotocol/sdk/server/stdio.js' {
 		constructor();
 	}
 }
+
+declare module 'zod' {
+	export const z: any;
+}
@@ -0,0 +1,182 @@
+import { appendFileSync, existsSync, mkdirSync, readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { StructuredContext, McpAgentDoneEvent } from '../lib/core/mcp-protocol.js';
+import type { ChangedFile } from '../lib/core/relay-protocol.js';
+
+/**
+ * A grab as kept in the persistent history, with the agent's result once reported.
+ * Screenshots are not persisted.
+ */
+export interface GrabRecord {
+	id: string;
+	project: string;
+	content: string[];
+	prompt?: string;
+	toolName?: string;
+	data?: StructuredContext;
+	/** Component files in the grab, for search */
+	files: string[];
+	timestamp: number;
+	result?: string;
+	status?: McpAgentDoneEvent['status'];
+	changedFiles?: ChangedFile[];
+	resultAt?: number;
+}
+
+export interface HistoryQuery {
+	/** Substring of a component file path, e.g. "Header.svelte" */
+	file?: string;
+	/** Substring of the prompt, the context or the agent's result */
+	text?: string;
+	project?: string;
+	/** Only grabs at or after this time (ms) */
+	since?: number;
+	/** Only grabs before this time (ms) */
+	until?: number;
+	/** Most results to return. Default: 20 */
+	limit?: number;
+}
+
+/** One line of a history file: a new grab, or the result reported for an earlier one */
+type HistoryLine =
+	| ({ type: 'grab' } & GrabRecord)
+	| { type: 'result'; id: string; result: string; status: McpAgentDoneEvent['status']; changedFiles: ChangedFile[]; resultAt: number };
+
+/**
+ * Default location of the grab history for a project.
+ */
+export function defaultHistoryDir(projectRoot: string = process.cwd()): string {
+	return join(projectRoot, '.svelte-grab', 'history');
+}
+
+/**
+ * Component files a grab refers to: the stacks of its elements, else `.svelte`
+ * paths mentioned in its text (payloads without structured data).
+ */
+export function grabFiles(content: string[], data?: StructuredContext): string[] {
+	const files = new Set<string>();
+	for (const element of data?.elements ?? []) {
+		for (const entry of element.stack) files.add(entry.file);
+	}
+	if (files.size === 0) {
+		for (const match of content.join('\n').matchAll(/[\w./@-]+\.svelte\b/g)) files.add(match[0]);
+	}
+	return [...files];
+}
+
+/**
+ * Append-only grab history, one JSON Lines file per day (UTC) in `.svelte-grab/history/`.
+ * Results are appended as separate lines and merged into their grab on load.
+ * All files are read once at startup and searched in memory.
+ */
+export class GrabHistoryStore {
+	private records = new Map<string, GrabRecord>();
+
+	constructor(private dir: string = defaultHistoryDir()) {
+		this.load();
+	}
+
+	private load(): void {
+		if (!existsSync(this.dir)) return;
+
+		const files = readdirSync(this.dir).filter(f => f.endsWith('.jsonl')).sort();
+		for (const file of files) {
+			let text: string;
+			try {
+				text = readFileSync(join(this.dir, file), 'utf-8');
+			} catch (err: any) {
+				console.error(`[svelte-grab mcp] Ignoring unreadable history file ${file}: ${err?.message ?? err}`);
+				continue;
+			}
+			for (const line of text.split('\n')) {
+				if (line.trim()) this.apply(line);
+			}
+		}
+	}
+
+	private apply(line: string): void {
+		let parsed: HistoryLine;
+		try {
+			parsed = JSON.parse(line);
+		} catch {
+			// A line cut short by a crash; the rest of the file is still usable
+			return;
+		}
+
+		if (parsed.type === 'grab' && typeof parsed.id === 'string') {
+			const { type: _, ...record } = parsed;
+			this.records.set(record.id, record);
+		} else if (parsed.type === 'result') {
+			const record = this.records.get(parsed.id);
+			if (record) {
+				record.result = parsed.result;
+				record.status = parsed.status;
+				record.changedFiles = parsed.changedFiles;
+				record.resultAt = parsed.resultAt;
+			}
+		}
+	}
+
+	private write(line: HistoryLine, timestamp: number): void {
+		try {
+			mkdirSync(this.dir, { recursive: true });
+			const file = join(this.dir, `${new Date(timestamp).toISOString().slice(0, 10)}.jsonl`);
+			appendFileSync(file, JSON.stringify(line) + '\n', 'utf-8');
+		} catch (err: any) {
+			console.error(`[svelte-grab mcp] Could not save grab history: ${err?.message ?? err}`);
+		}
+	}
+
+	/**
+	 * Persist a new grab.
+	 */
+	append(record: GrabRecord): void {
+		this.records.set(record.id, record);
+		this.write({ type: 'grab', ...record }, record.timestamp);
+	}
+
+	/**
+	 * Persist the result the agent reported for a grab.
+	 */
+	recordResult(id: string, result: string, status: McpAgentDoneEvent['status'], changedFiles: ChangedFile[]): void {
+		const record = this.records.get(id);
+		if (!record) return;
+
+		const resultAt = Date.now();
+		Object.assign(record, { result, status, changedFiles, resultAt });
+		this.write({ type: 'result', id, result, status, changedFiles, resultAt }, resultAt);
+	}
+
+	get(id: string): GrabRecord | undefined {
+		return this.records.get(id);
+	}
+
+	/**
+	 * Grabs matching every given criterion, newest first.
+	 */
+	search(query: HistoryQuery = {}): GrabRecord[] {
+		const file = query.file?.toLowerCase();
+		const text = query.text?.toLowerCase();
+
+		return [...this.records.values()]
+			.filter(r => !query.project || r.project === query.project)
+			.filter(r => query.since === undefined || r.timestamp >= query.since)
+			.filter(r => query.until === undefined || r.timestamp < query.until)
+			.filter(r => !file || r.files.some(f => f.toLowerCase().includes(file)))
+			.filter(r => !text || [r.prompt, r.result, ...r.content].some(t => t?.toLowerCase().includes(text)))
+			.sort((a, b) => b.timestamp - a.timestamp)
+			.slice(0, query.limit ?? 20);
+	}
+
+	/**
+	 * Highest `session-N` number in the history, so new IDs don't collide after a restart.
+	 */
+	lastSessionNumber(): number {
+		let max = 0;
+		for (const id of this.records.keys()) {
+			const n = Number(/^session-(\d+)$/.exec(id)?.[1] ?? 0);
+			if (n > max) max = n;
+		}
+		return max;
+	}
+}
@@ -1,3 +1,5 @@
-export { startMcpServer } from './server.js';
-export type { McpServerOptions } from './server.js';
+export { startMcpServer, createMcpMiddleware } from './server.js';
+export type { McpServerOptions, McpMiddlewareOptions } from './server.js';
+export { GrabHistoryStore, defaultHistoryDir } from './history.js';
+export type { GrabRecord, HistoryQuery } from './history.js';
 export { DEFAULT_MCP_PORT, HEALTH_CHECK_TIMEOUT_MS } from './constants.js';
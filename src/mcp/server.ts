@@ -1,64 +1,395 @@
+import { randomUUID } from 'node:crypto';
 import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
 import { DEFAULT_MCP_PORT } from './constants.js';
 import { findAvailablePort } from '../utils/port.js';
+import { isOriginAllowed, isValidToken } from '../utils/auth.js';
+import {
+	CONTEXT_PAYLOAD_VERSION,
+	MAX_PROFILE_DURATION_MS,
+	MAX_SCREENSHOT_BYTES,
+	MAX_SCREENSHOTS,
+	base64ByteLength,
+	type BrowserCommand,
+	type BrowserCommandResult,
+	type ContextScreenshot,
+	type McpAgentDoneEvent,
+	type McpQueueAction,
+	type McpQueueEvent,
+	type StructuredContext
+} from '../lib/core/mcp-protocol.js';
+import type { ChangedFile } from '../lib/core/relay-protocol.js';
+import type { ServerIdentity } from '../lib/core/discovery.js';
+import { GrabHistoryStore, defaultHistoryDir, grabFiles, type GrabRecord } from './history.js';
+import { TaskQueue } from './task-queue.js';
 
 export interface McpServerOptions {
 	port?: number;
 	stdio?: boolean;
+	/** Shared secret required as `Authorization: Bearer <token>` on POST /context and /command-result */
+	authToken?: string;
+	/** Browser origins allowed to call the HTTP endpoints (`*` wildcards allowed). Default: localhost on any port */
+	allowedOrigins?: string[];
+	/** Project the server belongs to, reported on /health so the browser can find it. Default: process.cwd() */
+	projectRoot?: string;
+	/** Persist grabs to `.svelte-grab/history/` in the project root for search_history. Default: true */
+	history?: boolean;
 }
 
+type HttpAuthOptions = Pick<McpServerOptions, 'authToken' | 'allowedOrigins'>;
+
+export type McpMiddlewareOptions = Pick<McpServerOptions, 'authToken' | 'allowedOrigins' | 'projectRoot' | 'history'>;
+
+/** A `ContextEnvelope`, or a legacy text-only payload without `version` and `data` */
 interface ContextPayload {
+	version?: number;
+	/** Project root of the page, else its origin. Default: the request's Origin header */
+	project?: string;
 	content: string[];
 	prompt?: string;
 	toolName?: string;
+	data?: StructuredContext;
+	screenshots?: ContextScreenshot[];
+}
+
+/** Context as stored by the server, with the ID of its session history entry */
+type ReceivedContext = ContextPayload & { id: string; project: string; timestamp: number };
+
+interface ToolContext {
+	content: string;
+	data?: StructuredContext;
+	timestamp: number;
+}
+
+// ============================================================
+// Projects — each app (project root, else page origin) keeps its own context
+// ============================================================
+interface ProjectState {
+	/** Last context sent by the project's pages, until an agent reads it */
+	storedContext: ReceivedContext | null;
+	/** Last output of each tool (A11yReporter, StyleGrab, ...) */
+	toolContexts: Map<string, ToolContext>;
+	lastContextAt: number;
+}
+
+const projects = new Map<string, ProjectState>();
+
+// Project that sent context last; tools without a `project` argument use it
+let lastProject: string | null = null;
+
+/** Key for pages that send neither a project nor an Origin header */
+const UNKNOWN_PROJECT = 'unknown';
+
+function getProject(key: string): ProjectState {
+	let state = projects.get(key);
+	if (!state) {
+		state = { storedContext: null, toolContexts: new Map(), lastContextAt: 0 };
+		projects.set(key, state);
+	}
+	return state;
 }
 
-// Stored context — last context sent by the browser
-let storedContext: ContextPayload | null = null;
+/**
+ * State of the given project, or of the one that sent context last.
+ */
+function resolveProject(key?: string): ProjectState | undefined {
+	const resolved = key ?? lastProject;
+	return resolved ? projects.get(resolved) : undefined;
+}
 
-// Per-tool context storage
-const toolContexts = new Map<string, { content: string; timestamp: number }>();
+/**
+ * Unread context of a project, or the newest unread context of any project.
+ */
+function findUnread(key?: string): ReceivedContext | null {
+	if (key) return projects.get(key)?.storedContext ?? null;
+
+	let newest: ReceivedContext | null = null;
+	for (const state of projects.values()) {
+		if (state.storedContext && (!newest || state.storedContext.timestamp > newest.timestamp)) {
+			newest = state.storedContext;
+		}
+	}
+	return newest;
+}
 
-// Session history — list of contexts received
+// Session history — list of contexts received, from all projects
 interface SessionHistoryEntry {
 	id: string;
+	project: string;
 	content: string[];
 	prompt?: string;
+	/** Summary reported by the agent via report_result */
 	result?: string;
+	status?: McpAgentDoneEvent['status'];
+	files?: ChangedFile[];
+	data?: StructuredContext;
+	screenshots?: ContextScreenshot[];
 	timestamp: number;
 }
 
+/** Entries kept in memory, and listed as resources */
+const MAX_SESSION_HISTORY = 50;
+
 let sessionHistory: SessionHistoryEntry[] = [];
 let sessionCounter = 0;
 
+// Persistent, searchable history across server restarts (null when disabled)
+let historyStore: GrabHistoryStore | null = null;
+
+// Last entry handed to the agent; report_result applies to it by default
+let deliveredSessionId: string | null = null;
+
 // ============================================================
 // Watch queue — resolves pending watch_for_grab tool calls
 // ============================================================
-type WatchResolver = (ctx: ContextPayload) => void;
-const watchQueue: WatchResolver[] = [];
+interface Watcher {
+	/** Only resolve for context from this project */
+	project?: string;
+	/** Aborted when the agent cancels the call (or its request times out) */
+	signal?: AbortSignal;
+	resolve: (ctx: ReceivedContext) => void;
+}
+const watchQueue: Watcher[] = [];
+
+/**
+ * Whether a pending watch_for_grab call would receive context from a project.
+ */
+function isWatched(project: string): boolean {
+	return watchQueue.some(w => !w.project || w.project === project);
+}
+
+// SSE clients — for browser real-time status, with the project each page belongs to
+const sseClients = new Map<ServerResponse, string>();
+
+// Task queue — grabs sent with a prompt, until an agent finishes them.
+// Every change is pushed to the project's pages for the queue panel.
+// Tasks dropped from a full queue release their screenshots; the grab stays in the history.
+const taskQueue = new TaskQueue<ReceivedContext>((project) => {
+	const event: McpQueueEvent = { tasks: taskQueue.list(project) };
+	broadcastSSE('queue', event, project);
+}, (ctx) => {
+	const entry = sessionHistory.find(e => e.id === ctx.id);
+	if (entry) delete entry.screenshots;
+});
+
+// ============================================================
+// Resources — connected MCP servers and the resource URIs each subscribed to
+// ============================================================
+const RESOURCE_SCHEME = 'svelte-grab://';
+const LATEST_CONTEXT_URI = `${RESOURCE_SCHEME}context/latest`;
+
+const mcpServers = new Map<any, Set<string>>();
+
+/**
+ * Tell subscribed MCP clients that a resource changed.
+ */
+function notifyResourceUpdated(uri: string): void {
+	for (const [server, uris] of mcpServers) {
+		if (uris.has(uri)) {
+			server.server.sendResourceUpdated({ uri }).catch(() => {
+				// Client went away; cleaned up when its transport closes
+			});
+		}
+	}
+}
+
+/**
+ * Tell connected MCP clients that the list of resources changed.
+ */
+function notifyResourceListChanged(): void {
+	for (const server of mcpServers.keys()) {
+		server.sendResourceListChanged();
+	}
+}
+
+// ============================================================
+// Browser commands — reverse channel for tools that drive the page
+// ============================================================
+const COMMAND_TIMEOUT_MS = 15_000;
+
+type CommandResolver = (result: BrowserCommandResult) => void;
+const pendingCommands = new Map<string, CommandResolver>();
+let commandCounter = 0;
+
+/**
+ * Push a command to connected browsers over SSE and wait for the first result.
+ * Goes to the pages of `project`; without one, to those of the project that sent
+ * context last, else to every page.
+ * Resolves with an error result when no browser is connected or none answers in time.
+ */
+function requestBrowser(
+	command: BrowserCommand,
+	timeoutMs: number = COMMAND_TIMEOUT_MS,
+	project?: string
+): Promise<BrowserCommandResult> {
+	const id = `cmd-${++commandCounter}`;
+
+	const target = project ?? (lastProject && hasBrowser(lastProject) ? lastProject : undefined);
+	if (target ? !hasBrowser(target) : sseClients.size === 0) {
+		return Promise.resolve({
+			id,
+			ok: false,
+			error: project
+				? `No browser connected for project "${project}".`
+				: 'No browser connected. Open the app with svelte-grab (enableMcp) running in dev mode.'
+		});
+	}
+
+	return new Promise((resolve) => {
+		const timer = setTimeout(() => {
+			pendingCommands.delete(id);
+			resolve({ id, ok: false, error: `The browser did not respond within ${Math.round(timeoutMs / 1000)}s.` });
+		}, timeoutMs);
+
+		pendingCommands.set(id, (result) => {
+			clearTimeout(timer);
+			pendingCommands.delete(id);
+			resolve(result);
+		});
+
+		broadcastSSE('command', { id, ...command }, target);
+	});
+}
+
+function hasBrowser(project: string): boolean {
+	return [...sseClients.values()].includes(project);
+}
+
+/**
+ * Run a browser command and format the outcome as an MCP tool result.
+ * `before` screenshots are listed ahead of the ones the browser returns.
+ */
+async function runBrowserTool(
+	command: BrowserCommand,
+	options: { timeoutMs?: number; project?: string; before?: ContextScreenshot[] } = {}
+) {
+	const { timeoutMs, project, before = [] } = options;
+	const result = await requestBrowser(command, timeoutMs, project);
+	if (!result.ok) {
+		return {
+			content: [{ type: 'text', text: `Browser command failed: ${result.error}` }],
+			isError: true
+		};
+	}
+	return toolResult(result.result, result.data, {}, [...before, ...(result.screenshots ?? [])]);
+}
+
+type McpContent = { type: 'text'; text: string } | { type: 'image'; data: string; mimeType: string };
+
+/**
+ * Build an MCP tool result: the text rendering, each screenshot as an image
+ * block, and the JSON context as `structuredContent` when the browser sent it.
+ */
+function toolResult(
+	text: string,
+	data?: StructuredContext,
+	meta: { sessionId?: string; project?: string; prompt?: string } = {},
+	screenshots: ContextScreenshot[] = []
+) {
+	const content: McpContent[] = [{ type: 'text', text }];
+	for (const shot of screenshots) {
+		content.push({ type: 'text', text: `Screenshot (${shot.label})${shot.selector ? `: ${shot.selector}` : ''}` });
+		content.push({ type: 'image', data: shot.data, mimeType: shot.mimeType });
+	}
+	return {
+		content,
+		...(data ? { structuredContent: { version: CONTEXT_PAYLOAD_VERSION, ...meta, ...data } } : {})
+	};
+}
 
-// SSE clients — for browser real-time status
-const sseClients = new Set<ServerResponse>();
+/**
+ * Validate a result posted back by the browser.
+ */
+function isValidCommandResult(data: unknown): data is BrowserCommandResult {
+	if (typeof data !== 'object' || data === null) return false;
+	const obj = data as Record<string, unknown>;
+	if (typeof obj.id !== 'string' || typeof obj.ok !== 'boolean') return false;
+	if (!obj.ok) return typeof obj.error === 'string';
+	return typeof obj.result === 'string' && (obj.data === undefined || isPlainObject(obj.data));
+}
+
+/**
+ * Validate a queue action posted by the browser.
+ */
+function isValidQueueAction(data: unknown): data is McpQueueAction {
+	if (!isPlainObject(data) || typeof data.id !== 'string') return false;
+	if (data.action === 'cancel') return true;
+	return data.action === 'move' && typeof data.position === 'number' && Number.isFinite(data.position);
+}
+
+/**
+ * Check screenshots against the shape and size limits.
+ * Returns an error message, or null when they are acceptable.
+ */
+function validateScreenshots(value: unknown): string | null {
+	if (value === undefined) return null;
+	if (!Array.isArray(value)) return 'screenshots must be an array';
+	if (value.length > MAX_SCREENSHOTS) return `At most ${MAX_SCREENSHOTS} screenshots are accepted`;
+	for (const shot of value) {
+		if (!isPlainObject(shot)) return 'Invalid screenshot';
+		if (shot.label !== 'before' && shot.label !== 'after') return 'Screenshot label must be "before" or "after"';
+		if (shot.mimeType !== 'image/png' && shot.mimeType !== 'image/jpeg') return 'Screenshot mimeType must be image/png or image/jpeg';
+		if (typeof shot.data !== 'string' || !/^[A-Za-z0-9+/]*={0,2}$/.test(shot.data)) return 'Screenshot data must be base64';
+		if (shot.selector !== undefined && typeof shot.selector !== 'string') return 'Invalid screenshot selector';
+		if (base64ByteLength(shot.data) > MAX_SCREENSHOT_BYTES) return `Screenshot is over ${MAX_SCREENSHOT_BYTES} bytes`;
+	}
+	return null;
+}
 
-// Track whether an agent is currently watching
-let agentWatching = false;
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
 
 /**
- * Notify all pending watchers that new context arrived.
+ * Hand new context to the pending watchers that accept its project.
+ * Returns how many received it.
  */
-function notifyWatchers(ctx: ContextPayload): void {
-	const waiters = watchQueue.splice(0);
-	for (const resolve of waiters) {
-		resolve(ctx);
+function notifyWatchers(ctx: ReceivedContext): number {
+	const waiters = watchQueue.filter(w => !w.project || w.project === ctx.project);
+	let delivered = 0;
+	for (const waiter of waiters) {
+		watchQueue.splice(watchQueue.indexOf(waiter), 1);
+		if (waiter.signal?.aborted) continue;
+		waiter.resolve(ctx);
+		delivered++;
 	}
+	return delivered;
+}
+
+/**
+ * Wait for the next grab from a project. Rejects, leaving the grab for
+ * others, when `signal` aborts first.
+ */
+function waitForGrab(project: string | undefined, signal?: AbortSignal): Promise<ReceivedContext> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(new Error('watch_for_grab cancelled'));
+			return;
+		}
+		const watcher: Watcher = {
+			project,
+			signal,
+			resolve: (ctx) => {
+				signal?.removeEventListener('abort', onAbort);
+				resolve(ctx);
+			}
+		};
+		const onAbort = () => {
+			const index = watchQueue.indexOf(watcher);
+			if (index !== -1) watchQueue.splice(index, 1);
+			reject(new Error('watch_for_grab cancelled'));
+		};
+		signal?.addEventListener('abort', onAbort, { once: true });
+		watchQueue.push(watcher);
+	});
 }
 
 /**
- * Send an SSE event to all connected browsers.
+ * Send an SSE event to the browsers of a project, or to all connected browsers.
  */
-function broadcastSSE(event: string, data: unknown): void {
+function broadcastSSE(event: string, data: unknown, project?: string): void {
 	const payload = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
-	for (const client of sseClients) {
+	for (const [client, clientProject] of sseClients) {
+		if (project && clientProject !== project) continue;
 		try {
 			client.write(payload);
 		} catch {
@@ -78,17 +409,40 @@ function isValidContextPayload(data: unknown): data is ContextPayload {
 		if (typeof item !== 'string') return false;
 	}
 	if (obj.prompt !== undefined && typeof obj.prompt !== 'string') return false;
+	if (obj.project !== undefined && typeof obj.project !== 'string') return false;
 	if (obj.toolName !== undefined && typeof obj.toolName !== 'string') return false;
+	if (obj.data !== undefined && !isPlainObject(obj.data)) return false;
 	return true;
 }
 
 /**
- * Set CORS headers for browser requests.
+ * Set CORS headers for browser requests from an allowed origin.
  */
-function setCorsHeaders(res: ServerResponse): void {
-	res.setHeader('Access-Control-Allow-Origin', '*');
+function setCorsHeaders(req: IncomingMessage, res: ServerResponse): void {
+	if (req.headers.origin) {
+		res.setHeader('Access-Control-Allow-Origin', req.headers.origin);
+		res.setHeader('Vary', 'Origin');
+	}
 	res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-	res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+	res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+}
+
+/**
+ * Read a bearer token from the Authorization header.
+ */
+function getBearerToken(req: IncomingMessage): string | null {
+	const header = req.headers.authorization;
+	return header?.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : null;
+}
+
+/** Largest request body accepted: the screenshots, base64-encoded, plus room for the text context */
+const MAX_BODY_BYTES = Math.ceil(MAX_SCREENSHOTS * MAX_SCREENSHOT_BYTES * 4 / 3) + 1024 * 1024;
+
+class PayloadTooLargeError extends Error {
+	constructor() {
+		super(`Request body is over ${MAX_BODY_BYTES} bytes`);
+		this.name = 'PayloadTooLargeError';
+	}
 }
 
 /**
@@ -97,8 +451,16 @@ function setCorsHeaders(res: ServerResponse): void {
 function readBody(req: IncomingMessage): Promise<string> {
 	return new Promise((resolve, reject) => {
 		const chunks: Buffer[] = [];
-		req.on('data', (chunk: Buffer) => chunks.push(chunk));
-		req.on('end', () => resolve(Buffer.concat(chunks).toString()));
+		let size = 0;
+		req.on('data', (chunk: Buffer) => {
+			size += chunk.length;
+			// Keep draining so the response can still be sent, but stop buffering
+			if (size <= MAX_BODY_BYTES) chunks.push(chunk);
+		});
+		req.on('end', () => {
+			if (size > MAX_BODY_BYTES) reject(new PayloadTooLargeError());
+			else resolve(Buffer.concat(chunks).toString());
+		});
 		req.on('error', reject);
 	});
 }
@@ -111,80 +473,317 @@ function sendJson(res: ServerResponse, status: number, data: unknown): void {
 	res.end(JSON.stringify(data));
 }
 
+/**
+ * Add to the in-memory session history, keeping the last MAX_SESSION_HISTORY entries.
+ */
+function addToSessionHistory(entry: SessionHistoryEntry): void {
+	sessionHistory.push(entry);
+	if (sessionHistory.length > MAX_SESSION_HISTORY) {
+		sessionHistory = sessionHistory.slice(-MAX_SESSION_HISTORY);
+	}
+}
+
 /**
  * Process incoming context from the browser.
- * Stores it, saves to history, and notifies any waiting agents.
+ * Stores it under its project, saves to history, and notifies any waiting agents.
+ * Returns whether a waiting agent received it.
  */
-function processIncomingContext(data: ContextPayload): void {
-	storedContext = data;
+function processIncomingContext(data: ContextPayload, project: string): boolean {
+	sessionCounter++;
+	const id = `session-${sessionCounter}`;
+	const timestamp = Date.now();
+	const ctx: ReceivedContext = { ...data, id, project, timestamp };
+
+	const state = getProject(project);
+	state.storedContext = ctx;
+	state.lastContextAt = timestamp;
+	lastProject = project;
 
 	// Store per-tool context if toolName provided
 	if (data.toolName) {
-		toolContexts.set(data.toolName, {
+		state.toolContexts.set(data.toolName, {
 			content: data.content.join('\n'),
-			timestamp: Date.now()
+			data: data.data,
+			timestamp
 		});
 	}
 
 	// Save to session history
-	sessionCounter++;
-	sessionHistory.push({
-		id: `session-${sessionCounter}`,
+	addToSessionHistory({
+		id,
+		project,
 		content: data.content,
 		prompt: data.prompt,
-		timestamp: Date.now()
+		data: data.data,
+		screenshots: data.screenshots,
+		timestamp
 	});
 
-	// Keep last 50 entries
-	if (sessionHistory.length > 50) {
-		sessionHistory = sessionHistory.slice(-50);
+	historyStore?.append({
+		id,
+		project,
+		content: data.content,
+		prompt: data.prompt,
+		toolName: data.toolName,
+		data: data.data,
+		files: grabFiles(data.content, data.data),
+		timestamp
+	});
+
+	// Instructions are queued so a busy agent does not miss them
+	if (data.prompt && !data.toolName) {
+		taskQueue.add({ id, project, prompt: data.prompt, label: taskLabel(data), createdAt: timestamp }, ctx);
 	}
 
-	// Notify waiting agents (watch_for_grab)
-	notifyWatchers(data);
+	// Notify waiting agents (watch_for_grab) and resource subscribers
+	const delivered = notifyWatchers(ctx) > 0;
+	notifyResourceUpdated(LATEST_CONTEXT_URI);
+	if (data.toolName) {
+		notifyResourceUpdated(`${RESOURCE_SCHEME}tool/${data.toolName}`);
+	}
+	notifyResourceListChanged();
 
-	// Notify browsers that context was received
+	// Notify the project's browsers that context was received
 	broadcastSSE('context-received', {
-		id: `session-${sessionCounter}`,
+		id,
 		hasPrompt: !!data.prompt,
-		agentWatching
-	});
+		agentWatching: delivered
+	}, project);
+
+	return delivered;
 }
 
+// Streamable HTTP sessions, keyed by the `mcp-session-id` header. Each keeps its own
+// server so resource subscriptions outlive the request that made them.
+const mcpHttpSessions = new Map<string, any>();
+
 /**
  * Handle MCP protocol requests via StreamableHTTP transport.
+ * An `initialize` POST starts a session; later requests (POST, the GET notification
+ * stream, DELETE to end it) carry its `mcp-session-id`.
  * Uses @modelcontextprotocol/sdk if available, otherwise returns 501.
  */
 async function handleMcpProtocol(req: IncomingMessage, res: ServerResponse): Promise<void> {
+	let StreamableHTTPServerTransport: any;
 	try {
-		const { McpServer } = await import('@modelcontextprotocol/sdk/server/mcp.js');
-		const { StreamableHTTPServerTransport } = await import('@modelcontextprotocol/sdk/server/streamableHttp.js');
+		({ StreamableHTTPServerTransport } = await import('@modelcontextprotocol/sdk/server/streamableHttp.js'));
+	} catch {
+		sendJson(res, 501, { error: '@modelcontextprotocol/sdk not installed' });
+		return;
+	}
 
-		const server = new McpServer({
-			name: 'svelte-grab',
-			version: '1.0.0'
-		});
+	// A new session's server and transport, closed on failure unless the session started
+	let server: any = null;
+	let transport: any = null;
+	try {
+		const sessionId = req.headers['mcp-session-id'];
+		if (typeof sessionId === 'string') {
+			const existing = mcpHttpSessions.get(sessionId);
+			if (existing) {
+				await existing.handleRequest(req, res);
+			} else {
+				// 404 tells the client to start a new session
+				sendJson(res, 404, { error: 'Unknown MCP session' });
+			}
+			return;
+		}
 
-		registerMcpTools(server);
+		if (req.method !== 'POST') {
+			sendJson(res, 400, { error: 'Missing mcp-session-id header' });
+			return;
+		}
 
-		const transport = new StreamableHTTPServerTransport('/mcp');
+		server = await createMcpServer();
+		transport = new StreamableHTTPServerTransport({
+			sessionIdGenerator: () => randomUUID(),
+			onsessioninitialized: (id: string) => {
+				mcpHttpSessions.set(id, transport);
+			}
+		});
+		transport.onclose = () => {
+			if (transport.sessionId) mcpHttpSessions.delete(transport.sessionId);
+		};
 		await server.connect(transport);
 		await transport.handleRequest(req, res);
-	} catch {
-		sendJson(res, 501, { error: '@modelcontextprotocol/sdk not installed' });
+
+		// Anything but `initialize` is rejected without starting a session
+		if (!transport.sessionId) {
+			await server.close();
+		}
+	} catch (err: any) {
+		console.error('[svelte-grab mcp] MCP request failed:', err?.message ?? err);
+		if (server && !transport?.sessionId) server.close().catch(() => {});
+		if (!res.headersSent) {
+			sendJson(res, 500, { jsonrpc: '2.0', error: { code: -32603, message: 'Internal server error' }, id: null });
+		} else {
+			res.end();
+		}
+	}
+}
+
+/**
+ * End every MCP HTTP session, e.g. when the HTTP server shuts down.
+ */
+function closeMcpHttpSessions(): void {
+	for (const transport of mcpHttpSessions.values()) {
+		transport.close().catch(() => {});
 	}
+	mcpHttpSessions.clear();
+}
+
+/**
+ * Create an MCP server with svelte-grab's tools and resources.
+ * Clients may subscribe to resources; they are notified when the browser sends new context.
+ */
+async function createMcpServer(): Promise<any> {
+	const { McpServer, ResourceTemplate } = await import('@modelcontextprotocol/sdk/server/mcp.js');
+	const { SubscribeRequestSchema, UnsubscribeRequestSchema } = await import('@modelcontextprotocol/sdk/types.js');
+	const { z } = await import('zod');
+
+	const server = new McpServer({
+		name: 'svelte-grab',
+		version: '1.0.0'
+	});
+
+	registerMcpTools(server, z);
+	registerMcpResources(server, ResourceTemplate);
+
+	const subscriptions = new Set<string>();
+	mcpServers.set(server, subscriptions);
+
+	server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+	server.server.setRequestHandler(SubscribeRequestSchema, async (request: { params: { uri: string } }) => {
+		subscriptions.add(request.params.uri);
+		return {};
+	});
+	server.server.setRequestHandler(UnsubscribeRequestSchema, async (request: { params: { uri: string } }) => {
+		subscriptions.delete(request.params.uri);
+		return {};
+	});
+	server.server.onclose = () => mcpServers.delete(server);
+
+	return server;
+}
+
+/**
+ * Short description of a grab for the queue panel: its element, else its first line.
+ */
+function taskLabel(data: ContextPayload): string {
+	const element = data.data?.elements?.[0];
+	if (element) {
+		const more = data.data!.elements!.length > 1 ? ` (+${data.data!.elements!.length - 1})` : '';
+		return `<${element.tagName}>${element.componentName ? ` in ${element.componentName}` : ''}${more}`;
+	}
+	const line = data.content[0]?.split('\n')[0] ?? '';
+	return line.length > 60 ? `${line.slice(0, 60)}...` : line;
+}
+
+/**
+ * Format context for the agent and remember it as the one report_result refers to.
+ * A queued task handed over this way is in progress from now on.
+ */
+function deliverContext(ctx: ReceivedContext) {
+	deliveredSessionId = ctx.id;
+	taskQueue.start(ctx.id);
+	const meta = { sessionId: ctx.id, project: ctx.project, prompt: ctx.prompt };
+	return toolResult(formatContext(ctx), ctx.data ?? {}, meta, ctx.screenshots);
+}
+
+/**
+ * Format a grab (context plus instruction) as text for the agent.
+ * Names the project when pages of several projects have sent context.
+ */
+function formatContext(ctx: { id: string; project: string; content: string[]; prompt?: string }): string {
+	const parts: string[] = projects.size > 1 ? [`Project: ${ctx.project}\n`, ...ctx.content] : [...ctx.content];
+	if (ctx.prompt) {
+		parts.push(`\nUser instruction: ${ctx.prompt}`);
+	}
+	parts.push(`\nWhen you are done, call report_result (sessionId: ${ctx.id}).`);
+	return parts.join('\n');
+}
+
+/**
+ * Parse a search date: YYYY-MM-DD as local midnight, else any Date-parsable string.
+ * Returns NaN when invalid, undefined when not given.
+ */
+function parseDate(value?: string): number | undefined {
+	if (!value) return undefined;
+	const day = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+	return day ? new Date(Number(day[1]), Number(day[2]) - 1, Number(day[3])).getTime() : Date.parse(value);
+}
+
+/**
+ * Format a persisted grab as a search result line.
+ */
+function formatRecord(record: GrabRecord): string {
+	const lines = [`[${new Date(record.timestamp).toLocaleString()}] ${record.id}${projects.size > 1 || record.project !== lastProject ? ` (${record.project})` : ''}`];
+	lines.push(`  ${record.prompt ? `Prompt: ${record.prompt}` : 'No prompt'}`);
+	if (record.files.length > 0) lines.push(`  Files: ${record.files.join(', ')}`);
+	if (record.result) lines.push(`  Result (${record.status}): ${record.result}`);
+	return lines.join('\n');
+}
+
+/**
+ * History entries of a project, or of the one that sent context last.
+ */
+function historyOf(project?: string): SessionHistoryEntry[] {
+	const key = project ?? lastProject;
+	return key ? sessionHistory.filter(e => e.project === key) : sessionHistory;
+}
+
+/**
+ * Record the agent's result for a grab: in the history, in the task queue and
+ * in the project's pages (`agent-done`).
+ */
+function reportResult(
+	id: string | null,
+	summary: string,
+	status: McpAgentDoneEvent['status'],
+	files: Array<string | { path: string; status?: ChangedFile['status'] }>
+) {
+	const entry = id ? sessionHistory.find(e => e.id === id) : undefined;
+	if (!entry) {
+		return {
+			content: [{ type: 'text', text: id ? `Unknown session "${id}".` : 'No grab to report on. Call watch_for_grab first.' }],
+			isError: true
+		};
+	}
+
+	entry.result = summary;
+	entry.status = status;
+	entry.files = toChangedFiles(files);
+	historyStore?.recordResult(entry.id, summary, status, entry.files);
+	taskQueue.finish(entry.id, status === 'success' ? 'done' : 'failed', summary);
+
+	const event: McpAgentDoneEvent = { id: entry.id, status, summary, files: entry.files };
+	broadcastSSE('agent-done', event, entry.project);
+	notifyResourceUpdated(`${RESOURCE_SCHEME}history/${entry.id}`);
+
+	return {
+		content: [{ type: 'text', text: `Reported ${status} for ${entry.id}${hasBrowser(entry.project) ? '' : ' (no browser connected)'}.` }]
+	};
+}
+
+/**
+ * Normalize changed files passed to report_result (plain paths count as modified).
+ */
+function toChangedFiles(files: Array<string | { path: string; status?: ChangedFile['status'] }>): ChangedFile[] {
+	return files.map(f => typeof f === 'string'
+		? { path: f, status: 'modified' }
+		: { path: f.path, status: f.status ?? 'modified' });
 }
 
 /**
- * Extract a tool-specific section from stored context.
+ * Extract a tool-specific section from a project's stored context.
  * Checks per-tool storage first, then falls back to parsing the unified export.
  */
-function extractToolSection(toolName: string): string | null {
-	const toolCtx = toolContexts.get(toolName);
+function extractToolSection(state: ProjectState | undefined, toolName: string): string | null {
+	if (!state) return null;
+	const toolCtx = state.toolContexts.get(toolName);
 	if (toolCtx) return toolCtx.content;
 
-	if (!storedContext) return null;
-	const fullText = storedContext.content.join('\n');
+	if (!state.storedContext) return null;
+	const fullText = state.storedContext.content.join('\n');
 	const regex = new RegExp(`\\[${toolName}\\][\\s\\S]*?(?=\\n={30,}\\n\\[|$)`);
 	const match = fullText.match(regex);
 	return match ? match[0] : null;
@@ -192,8 +791,12 @@ function extractToolSection(toolName: string): string | null {
 
 /**
  * Register MCP tools on a server instance.
+ * `z` is zod, used for tool argument schemas.
  */
-function registerMcpTools(server: any): void {
+function registerMcpTools(server: any, z: any): void {
+	const projectArg = z.string().optional()
+		.describe('Project root (or page origin) of the app, as listed on /health and in list_available_tools. Default: the app that sent context last');
+
 	// ============================================================
 	// watch_for_grab — blocks until the browser sends new context
 	// ============================================================
@@ -203,73 +806,142 @@ function registerMcpTools(server: any): void {
 		'This tool BLOCKS until the user Alt+Clicks an element and submits their prompt. ' +
 		'Returns the component context (file paths, component stack, HTML) plus the user\'s instruction. ' +
 		'Call this in a loop to continuously receive instructions from the browser. ' +
-		'The user selects a component, types what they want changed, and hits Enter — you receive everything here.',
-		{},
-		async () => {
-			agentWatching = true;
-			broadcastSSE('agent-status', { status: 'watching', message: 'Claude Code is listening...' });
+		'The user selects a component, types what they want changed, and hits Enter — you receive everything here. ' +
+		'When several apps send context to this server, pass `project` to only receive grabs from one of them.',
+		{
+			project: z.string().optional().describe('Only receive grabs from this project root (or page origin). Default: any project')
+		},
+		async ({ project }: { project?: string }, extra: { signal?: AbortSignal }) => {
+			broadcastSSE('agent-status', { status: 'watching', message: 'Claude Code is listening...' }, project);
+
+			// Queued tasks come first, oldest first; then unread context; otherwise wait for the next grab.
+			// A cancelled or timed-out call drops out of the queue, so it never takes a grab.
+			let ctx = taskQueue.claimNext(project)?.context ?? findUnread(project);
+			if (!ctx) {
+				ctx = await waitForGrab(project, extra?.signal);
+				// Cancelled after the grab arrived: leave it stored and queued for the next agent
+				if (extra?.signal?.aborted) throw new Error('watch_for_grab cancelled');
+			}
 
-			// If there's already unread context, return it immediately
-			if (storedContext) {
-				const ctx = storedContext;
-				storedContext = null;
+			// Clear stored context since we're consuming it
+			const state = projects.get(ctx.project);
+			if (state?.storedContext === ctx) state.storedContext = null;
 
-				const parts: string[] = [...ctx.content];
-				if (ctx.prompt) {
-					parts.push(`\nUser instruction: ${ctx.prompt}`);
-				}
+			broadcastSSE('agent-status', { status: 'processing', message: 'Processing...' }, ctx.project);
 
-				agentWatching = false;
-				broadcastSSE('agent-status', { status: 'processing', message: 'Processing...' });
+			return deliverContext(ctx);
+		}
+	);
 
+	server.tool(
+		'get_element_context',
+		'Returns the last element context captured by svelte-grab in the browser. Returns the grabbed component stack, HTML preview, and optional prompt. Context is cleared after reading.',
+		{
+			project: z.string().optional().describe('Only return context from this project root (or page origin). Default: the newest from any project')
+		},
+		async ({ project }: { project?: string }) => {
+			const ctx = findUnread(project);
+			if (!ctx) {
 				return {
-					content: [{ type: 'text', text: parts.join('\n') }]
+					content: [{ type: 'text', text: 'No context available. Alt+Click an element in the browser with svelte-grab active.' }]
 				};
 			}
 
-			// Wait for the next context from the browser
-			const ctx = await new Promise<ContextPayload>((resolve) => {
-				watchQueue.push(resolve);
-			});
+			projects.get(ctx.project)!.storedContext = null;
 
-			// Clear stored context since we're consuming it
-			storedContext = null;
+			return deliverContext(ctx);
+		}
+	);
 
-			const parts: string[] = [...ctx.content];
-			if (ctx.prompt) {
-				parts.push(`\nUser instruction: ${ctx.prompt}`);
+	server.tool(
+		'report_result',
+		'Reports that you finished (or failed) the task from a grab, so the user sees it in the browser. ' +
+		'Call this once after handling each instruction from watch_for_grab or get_element_context.',
+		{
+			summary: z.string().describe('Short summary of what you did, e.g. "Made the button outline on hover"'),
+			status: z.enum(['success', 'failure']).optional().describe('Whether the task succeeded (default: success)'),
+			files: z.array(z.union([
+				z.string(),
+				z.object({ path: z.string(), status: z.enum(['added', 'modified', 'deleted']).optional() })
+			])).optional().describe('Files you changed, as paths or { path, status }'),
+			sessionId: z.string().optional().describe('Session ID from the grab (default: the last one you received)')
+		},
+		async ({ summary, status = 'success', files = [], sessionId }: {
+			summary: string;
+			status?: McpAgentDoneEvent['status'];
+			files?: Array<string | { path: string; status?: ChangedFile['status'] }>;
+			sessionId?: string;
+		}) => reportResult(sessionId ?? deliveredSessionId, summary, status, files)
+	);
+
+	// ============================================================
+	// Task queue — work through queued grabs one at a time
+	// ============================================================
+	server.tool(
+		'claim_next_task',
+		'Takes the oldest pending task from the queue (a grab the user sent with an instruction) and marks it in progress. ' +
+		'Returns its context and instruction like watch_for_grab, but never blocks. ' +
+		'Call complete_task when done, then claim the next one until the queue is empty.',
+		{ project: z.string().optional().describe('Only claim tasks from this project root (or page origin). Default: any project') },
+		async ({ project }: { project?: string }) => {
+			const entry = taskQueue.claimNext(project);
+			if (!entry) {
+				return {
+					content: [{ type: 'text', text: 'No pending tasks. Call watch_for_grab to wait for the next grab.' }]
+				};
 			}
 
-			agentWatching = false;
-			broadcastSSE('agent-status', { status: 'processing', message: 'Processing...' });
+			const state = projects.get(entry.task.project);
+			if (state?.storedContext === entry.context) state.storedContext = null;
 
-			return {
-				content: [{ type: 'text', text: parts.join('\n') }]
-			};
+			const result = deliverContext(entry.context);
+			const left = taskQueue.pendingCount(project);
+			result.content.push({ type: 'text', text: left > 0 ? `${left} more task(s) pending.` : 'This is the last pending task.' });
+			return result;
 		}
 	);
 
 	server.tool(
-		'get_element_context',
-		'Returns the last element context captured by svelte-grab in the browser. Returns the grabbed component stack, HTML preview, and optional prompt. Context is cleared after reading.',
-		{},
-		async () => {
-			if (!storedContext) {
+		'complete_task',
+		'Marks a task from claim_next_task done or failed and shows your summary in the browser, like report_result.',
+		{
+			taskId: z.string().describe('Task ID (the session ID from claim_next_task)'),
+			status: z.enum(['done', 'failed']).optional().describe('Whether the task succeeded (default: done)'),
+			summary: z.string().describe('Short summary of what you did'),
+			files: z.array(z.union([
+				z.string(),
+				z.object({ path: z.string(), status: z.enum(['added', 'modified', 'deleted']).optional() })
+			])).optional().describe('Files you changed, as paths or { path, status }')
+		},
+		async ({ taskId, status = 'done', summary, files = [] }: {
+			taskId: string;
+			status?: 'done' | 'failed';
+			summary: string;
+			files?: Array<string | { path: string; status?: ChangedFile['status'] }>;
+		}) => reportResult(taskId, summary, status === 'done' ? 'success' : 'failure', files)
+	);
+
+	server.tool(
+		'list_tasks',
+		'Lists the task queue: pending tasks in the order they will be claimed, then those in progress and finished.',
+		{ project: z.string().optional().describe('Only list tasks from this project root (or page origin). Default: all projects') },
+		async ({ project }: { project?: string }) => {
+			const tasks = taskQueue.list(project);
+			if (tasks.length === 0) {
 				return {
-					content: [{ type: 'text', text: 'No context available. Alt+Click an element in the browser with svelte-grab active.' }]
+					content: [{ type: 'text', text: 'The task queue is empty. Grabs sent with an instruction are queued here.' }],
+					structuredContent: { tasks: [] }
 				};
 			}
 
-			const ctx = storedContext;
-			storedContext = null;
-
-			const parts: string[] = [...ctx.content];
-			if (ctx.prompt) {
-				parts.push(`\nUser instruction: ${ctx.prompt}`);
-			}
-
+			const lines = tasks.map(task => {
+				const prefix = projects.size > 1 ? `[${task.project}] ` : '';
+				const summary = task.summary ? `\n  Result: ${task.summary}` : '';
+				return `${prefix}${task.id} ${task.status} — ${task.label}\n  Instruction: ${task.prompt}${summary}`;
+			});
 			return {
-				content: [{ type: 'text', text: parts.join('\n') }]
+				content: [{ type: 'text', text: `Tasks (${taskQueue.pendingCount(project)} pending):\n\n${lines.join('\n\n')}` }],
+				structuredContent: { tasks }
 			};
 		}
 	);
@@ -277,15 +949,16 @@ function registerMcpTools(server: any): void {
 	server.tool(
 		'undo_last_action',
 		'Returns an undo instruction with the original context from the last interaction. Use this to instruct the agent to undo its last change.',
-		{},
-		async () => {
-			if (sessionHistory.length === 0) {
+		{ project: projectArg },
+		async ({ project }: { project?: string }) => {
+			const entries = historyOf(project);
+			if (entries.length === 0) {
 				return {
 					content: [{ type: 'text', text: 'No previous actions to undo. No session history available.' }]
 				};
 			}
 
-			const lastEntry = sessionHistory[sessionHistory.length - 1];
+			const lastEntry = entries[entries.length - 1];
 			const contextInfo = lastEntry.content.length > 0
 				? `\n\nOriginal context was:\n${lastEntry.content.join('\n')}`
 				: '';
@@ -302,108 +975,301 @@ function registerMcpTools(server: any): void {
 	server.tool(
 		'get_session_history',
 		'Returns the list of recent interactions (contexts sent by the browser). Each entry includes the content, prompt, and timestamp.',
-		{},
-		async () => {
-			if (sessionHistory.length === 0) {
+		{
+			project: z.string().optional().describe('Only list grabs from this project root (or page origin). Default: all projects')
+		},
+		async ({ project }: { project?: string }) => {
+			const history = project ? sessionHistory.filter(e => e.project === project) : sessionHistory;
+			if (history.length === 0) {
 				return {
 					content: [{ type: 'text', text: 'No session history. No contexts have been sent yet.' }]
 				};
 			}
 
-			const entries = sessionHistory.slice(-20).map((entry) => {
+			const entries = history.slice(-20).map((entry) => {
 				const time = new Date(entry.timestamp).toLocaleTimeString();
 				const prompt = entry.prompt ? `Prompt: ${entry.prompt}` : 'No prompt';
 				const contentPreview = entry.content.length > 0
 					? `Content: ${entry.content[0].slice(0, 100)}${entry.content[0].length > 100 ? '...' : ''}`
 					: 'No content';
-				return `[${time}] ${entry.id}\n  ${prompt}\n  ${contentPreview}`;
+				const result = entry.result
+					? `\n  Result (${entry.status}): ${entry.result}${entry.files?.length ? ` [${entry.files.map(f => f.path).join(', ')}]` : ''}`
+					: '';
+				const projectLine = projects.size > 1 ? `\n  Project: ${entry.project}` : '';
+				return `[${time}] ${entry.id}${projectLine}\n  ${prompt}\n  ${contentPreview}${result}`;
 			});
 
 			return {
-				content: [{ type: 'text', text: `Session history (${sessionHistory.length} entries):\n\n${entries.join('\n\n')}` }]
+				content: [{ type: 'text', text: `Session history (${history.length} entries):\n\n${entries.join('\n\n')}` }]
+			};
+		}
+	);
+
+	server.tool(
+		'search_history',
+		'Searches past grabs, including those from earlier sessions, by component file, text or date. ' +
+		'Use it to answer questions like "what did I ask about Header.svelte yesterday", then open_history_entry to re-open one.',
+		{
+			file: z.string().optional().describe('Part of a component file path, e.g. "Header.svelte"'),
+			text: z.string().optional().describe('Text to find in the prompt, the grabbed context or the agent\'s result'),
+			since: z.string().optional().describe('Only grabs at or after this date: YYYY-MM-DD (local time) or an ISO timestamp'),
+			until: z.string().optional().describe('Only grabs before this date: YYYY-MM-DD (local time) or an ISO timestamp'),
+			project: projectArg.describe('Only grabs from this project root (or page origin). Default: all projects'),
+			limit: z.number().int().positive().max(100).optional().describe('Most results to return (default: 20)')
+		},
+		async ({ file, text, since, until, project, limit }: {
+			file?: string;
+			text?: string;
+			since?: string;
+			until?: string;
+			project?: string;
+			limit?: number;
+		}) => {
+			if (!historyStore) {
+				return {
+					content: [{ type: 'text', text: 'Grab history is disabled (history: false).' }],
+					isError: true
+				};
+			}
+
+			const range = { since: parseDate(since), until: parseDate(until) };
+			if (Number.isNaN(range.since) || Number.isNaN(range.until)) {
+				return {
+					content: [{ type: 'text', text: 'Invalid date. Use YYYY-MM-DD or an ISO timestamp.' }],
+					isError: true
+				};
+			}
+
+			const matches = historyStore.search({ file, text, project, limit, ...range });
+			if (matches.length === 0) {
+				return {
+					content: [{ type: 'text', text: 'No grabs match.' }],
+					structuredContent: { matches: [] }
+				};
+			}
+
+			return {
+				content: [{ type: 'text', text: `${matches.length} grab(s), newest first:\n\n${matches.map(formatRecord).join('\n\n')}` }],
+				structuredContent: {
+					matches: matches.map(r => ({
+						id: r.id,
+						project: r.project,
+						timestamp: new Date(r.timestamp).toISOString(),
+						prompt: r.prompt,
+						files: r.files,
+						result: r.result,
+						status: r.status
+					}))
+				}
 			};
 		}
 	);
 
+	server.tool(
+		'open_history_entry',
+		'Re-opens a past grab by session ID (from search_history or get_session_history): returns its full context and instruction, ' +
+		'like watch_for_grab. report_result then applies to it.',
+		{ id: z.string().describe('Session ID, e.g. "session-12"') },
+		async ({ id }: { id: string }) => {
+			let entry = sessionHistory.find(e => e.id === id);
+			const record = historyStore?.get(id);
+			if (!entry && record) {
+				entry = {
+					id: record.id,
+					project: record.project,
+					content: record.content,
+					prompt: record.prompt,
+					data: record.data,
+					result: record.result,
+					status: record.status,
+					files: record.changedFiles,
+					timestamp: record.timestamp
+				};
+				addToSessionHistory(entry);
+				notifyResourceListChanged();
+			}
+			if (!entry) {
+				return {
+					content: [{ type: 'text', text: `Unknown session "${id}".` }],
+					isError: true
+				};
+			}
+
+			const result = deliverContext(entry);
+			if (entry.result) {
+				result.content.push({ type: 'text', text: `Previously reported (${entry.status}): ${entry.result}` });
+			}
+			return result;
+		}
+	);
+
 	server.tool(
 		'get_a11y_report',
 		'Returns the last accessibility audit report captured by SvelteA11yReporter. Includes WCAG violations, scores, and fix suggestions.',
-		{},
-		async () => {
-			const section = extractToolSection('A11yReporter');
+		{ project: projectArg },
+		async ({ project }: { project?: string }) => {
+			const state = resolveProject(project);
+			const section = extractToolSection(state, 'A11yReporter');
 			if (!section) {
 				return {
 					content: [{ type: 'text', text: 'No a11y report available. Use Alt+RightClick or Alt+A in the browser to run an accessibility audit.' }]
 				};
 			}
-			return { content: [{ type: 'text', text: section }] };
+			return toolResult(section, state?.toolContexts.get('A11yReporter')?.data);
 		}
 	);
 
 	server.tool(
 		'get_style_context',
 		'Returns the last CSS style analysis captured by SvelteStyleGrab. Includes computed styles, conflicts, and source attribution.',
-		{},
-		async () => {
-			const section = extractToolSection('StyleGrab');
+		{ project: projectArg },
+		async ({ project }: { project?: string }) => {
+			const state = resolveProject(project);
+			const section = extractToolSection(state, 'StyleGrab');
 			if (!section) {
 				return {
 					content: [{ type: 'text', text: 'No style context available. Use Alt+Ctrl+Click on an element in the browser to capture styles.' }]
 				};
 			}
-			return { content: [{ type: 'text', text: section }] };
+			return toolResult(section, state?.toolContexts.get('StyleGrab')?.data);
 		}
 	);
 
 	server.tool(
 		'get_error_context',
 		'Returns captured console errors and warnings from SvelteErrorContext. Includes stack traces, component attribution, and error patterns.',
-		{},
-		async () => {
-			const section = extractToolSection('ErrorContext');
+		{ project: projectArg },
+		async ({ project }: { project?: string }) => {
+			const state = resolveProject(project);
+			const section = extractToolSection(state, 'ErrorContext');
 			if (!section) {
 				return {
 					content: [{ type: 'text', text: 'No error context available. Errors are captured automatically when SvelteErrorContext is active.' }]
 				};
 			}
-			return { content: [{ type: 'text', text: section }] };
+			return toolResult(section, state?.toolContexts.get('ErrorContext')?.data);
 		}
 	);
 
 	server.tool(
 		'get_profiler_report',
 		'Returns the last render profiler report from SvelteRenderProfiler. Includes hot components, render counts, and burst detection.',
-		{},
-		async () => {
-			const section = extractToolSection('RenderProfiler');
+		{ project: projectArg },
+		async ({ project }: { project?: string }) => {
+			const state = resolveProject(project);
+			const section = extractToolSection(state, 'RenderProfiler');
 			if (!section) {
 				return {
 					content: [{ type: 'text', text: 'No profiler data available. Use Alt+P in the browser to start profiling.' }]
 				};
 			}
-			return { content: [{ type: 'text', text: section }] };
+			return toolResult(section, state?.toolContexts.get('RenderProfiler')?.data);
+		}
+	);
+
+	// ============================================================
+	// Browser commands — ask the page to grab, audit, inspect or profile
+	// ============================================================
+	server.tool(
+		'grab_element',
+		'Grabs an element in the browser by CSS selector and returns its component context ' +
+		'(component stack with file:line, HTML preview), as if the user had Alt+Clicked it.',
+		{ selector: z.string().describe('CSS selector, e.g. "main .card:first-child"'), project: projectArg },
+		async ({ selector, project }: { selector: string; project?: string }) =>
+			runBrowserTool({ type: 'grab-element', selector }, { project })
+	);
+
+	server.tool(
+		'run_a11y_audit',
+		'Runs an accessibility audit in the browser on the element matching a CSS selector (default: the whole page). ' +
+		'Returns WCAG violations, scores, and fix suggestions.',
+		{
+			selector: z.string().optional().describe('CSS selector of the region to audit, e.g. "main" (default: body)'),
+			includeSubtree: z.boolean().optional().describe('Audit descendants too (default: true)'),
+			project: projectArg
+		},
+		async ({ selector, includeSubtree, project }: { selector?: string; includeSubtree?: boolean; project?: string }) =>
+			runBrowserTool({ type: 'a11y-audit', selector, includeSubtree }, { project })
+	);
+
+	server.tool(
+		'capture_styles',
+		'Captures computed styles for the element matching a CSS selector in the browser. ' +
+		'Includes source attribution for each property and conflicting rules.',
+		{ selector: z.string().describe('CSS selector of the element'), project: projectArg },
+		async ({ selector, project }: { selector: string; project?: string }) =>
+			runBrowserTool({ type: 'capture-styles', selector }, { project })
+	);
+
+	server.tool(
+		'profile_renders',
+		'Records DOM renders in the browser for a while, then returns the profiler report ' +
+		'(hot components, render counts, bursts). Interact with the page or trigger the update while it records.',
+		{
+			durationMs: z.number().int().positive().max(MAX_PROFILE_DURATION_MS).optional()
+				.describe('How long to record, in ms (default: 5000)'),
+			project: projectArg
+		},
+		async ({ durationMs = 5000, project }: { durationMs?: number; project?: string }) =>
+			runBrowserTool({ type: 'profile-renders', durationMs }, { timeoutMs: durationMs + COMMAND_TIMEOUT_MS, project })
+	);
+
+	server.tool(
+		'capture_screenshot',
+		'Takes a screenshot of an element in the browser and returns it as an image. Call it after a change to check the result. ' +
+		'With sessionId, it pictures the element grabbed in that session and also returns the screenshot taken at grab time, as a before/after pair.',
+		{
+			selector: z.string().optional().describe('CSS selector of the element (default: the element grabbed in sessionId)'),
+			sessionId: z.string().optional().describe('Session ID from watch_for_grab or get_element_context'),
+			project: projectArg
+		},
+		async ({ selector, sessionId, project }: { selector?: string; sessionId?: string; project?: string }) => {
+			const entry = sessionId ? sessionHistory.find(e => e.id === sessionId) : undefined;
+			if (sessionId && !entry) {
+				return {
+					content: [{ type: 'text', text: `Unknown session "${sessionId}".` }],
+					isError: true
+				};
+			}
+
+			const target = selector ?? entry?.data?.elements?.[0]?.selector;
+			if (!target) {
+				return {
+					content: [{ type: 'text', text: 'Pass a selector, or a sessionId whose grab recorded one.' }],
+					isError: true
+				};
+			}
+
+			const before = entry?.screenshots?.filter(shot => shot.label === 'before') ?? [];
+			return runBrowserTool({ type: 'capture-screenshot', selector: target }, { project: project ?? entry?.project, before });
 		}
 	);
 
 	server.tool(
 		'list_available_tools',
-		'Lists which svelte-grab tools have data available and when it was last captured.',
+		'Lists which svelte-grab tools have data available and when it was last captured, per project.',
 		{},
 		async () => {
 			const tools: string[] = [];
 
-			if (storedContext) {
-				tools.push('element_context: available (last grab)');
-			}
-
-			if (agentWatching) {
+			if (watchQueue.length > 0) {
 				tools.push('watch_for_grab: active (waiting for browser input)');
 			}
 
-			for (const [name, ctx] of toolContexts) {
-				const age = Math.floor((Date.now() - ctx.timestamp) / 1000);
-				const ageStr = age < 60 ? `${age}s ago` : `${Math.floor(age / 60)}m ago`;
-				tools.push(`${name}: available (captured ${ageStr})`);
+			for (const [key, state] of projects) {
+				const prefix = projects.size > 1 ? `[${key}] ` : '';
+				if (state.storedContext) {
+					tools.push(`${prefix}element_context: available (last grab)`);
+				}
+				const pending = taskQueue.pendingCount(key);
+				if (pending > 0) {
+					tools.push(`${prefix}task_queue: ${pending} pending (claim_next_task)`);
+				}
+				for (const [name, ctx] of state.toolContexts) {
+					const age = Math.floor((Date.now() - ctx.timestamp) / 1000);
+					const ageStr = age < 60 ? `${age}s ago` : `${Math.floor(age / 60)}m ago`;
+					tools.push(`${prefix}${name}: available (captured ${ageStr})`);
+				}
 			}
 
 			if (tools.length === 0) {
@@ -419,13 +1285,127 @@ function registerMcpTools(server: any): void {
 	);
 }
 
+/**
+ * Register MCP resources on a server instance.
+ * `ResourceTemplate` is the SDK class for URI templates.
+ *
+ * - svelte-grab://context/latest — the most recent grab (reading does not consume it)
+ * - svelte-grab://history/{id} — one entry of the session history, with the agent's result
+ * - svelte-grab://tool/{name} — the last output of a tool (A11yReporter, StyleGrab, ...)
+ */
+function registerMcpResources(server: any, ResourceTemplate: any): void {
+	const text = (uri: URL, value: string) => ({
+		contents: [{ uri: uri.href, mimeType: 'text/plain', text: value }]
+	});
+
+	server.registerResource(
+		'latest-context',
+		LATEST_CONTEXT_URI,
+		{
+			title: 'Latest grab',
+			description: 'The most recent component context and instruction sent from the browser. ' +
+				'Subscribe to be notified of new grabs instead of blocking in watch_for_grab.',
+			mimeType: 'text/plain'
+		},
+		async (uri: URL) => {
+			const latest = sessionHistory[sessionHistory.length - 1];
+			if (!latest) {
+				return text(uri, 'No context yet. Alt+Click an element in the browser with svelte-grab active.');
+			}
+			deliveredSessionId = latest.id;
+			return text(uri, formatContext(latest));
+		}
+	);
+
+	server.registerResource(
+		'history',
+		new ResourceTemplate(`${RESOURCE_SCHEME}history/{id}`, {
+			list: async () => ({
+				resources: sessionHistory.slice().reverse().map(entry => ({
+					uri: `${RESOURCE_SCHEME}history/${entry.id}`,
+					name: entry.id,
+					description: entry.prompt ?? 'No prompt',
+					mimeType: 'text/plain'
+				}))
+			})
+		}),
+		{
+			title: 'Grab history',
+			description: 'A past grab with its instruction and, once reported, the agent\'s result.',
+			mimeType: 'text/plain'
+		},
+		async (uri: URL, { id }: { id: string }) => {
+			const entry = sessionHistory.find(e => e.id === id);
+			if (!entry) {
+				throw new Error(`Unknown session "${id}"`);
+			}
+
+			const result = entry.result
+				? `\n\nResult (${entry.status}): ${entry.result}${entry.files?.length ? `\nFiles: ${entry.files.map(f => f.path).join(', ')}` : ''}`
+				: '';
+			return text(uri, `${formatContext(entry)}${result}`);
+		}
+	);
+
+	server.registerResource(
+		'tool-output',
+		new ResourceTemplate(`${RESOURCE_SCHEME}tool/{name}`, {
+			list: async () => ({
+				resources: [...(resolveProject()?.toolContexts.keys() ?? [])].map(name => ({
+					uri: `${RESOURCE_SCHEME}tool/${name}`,
+					name,
+					mimeType: 'text/plain'
+				}))
+			})
+		}),
+		{
+			title: 'Tool output',
+			description: 'The last output of a svelte-grab tool, e.g. A11yReporter, StyleGrab, ErrorContext or RenderProfiler.',
+			mimeType: 'text/plain'
+		},
+		async (uri: URL, { name }: { name: string }) => {
+			const section = extractToolSection(resolveProject(), name);
+			if (!section) {
+				throw new Error(`No output from ${name} yet`);
+			}
+			return text(uri, section);
+		}
+	);
+}
+
+/**
+ * Projects that sent context or have a page connected, for /health.
+ */
+function listProjects() {
+	const browsers = [...sseClients.values()];
+	const keys = new Set([...projects.keys(), ...browsers]);
+	return [...keys].map(key => {
+		const state = projects.get(key);
+		return {
+			project: key,
+			browsers: browsers.filter(p => p === key).length,
+			hasContext: !!state?.storedContext,
+			agentWatching: isWatched(key),
+			pendingTasks: taskQueue.pendingCount(key),
+			lastContextAt: state?.lastContextAt ? new Date(state.lastContextAt).toISOString() : null
+		};
+	});
+}
+
 /**
  * Create the HTTP request handler for the context bridge.
  * Used by both standalone HTTP mode and as a sidecar in stdio mode.
+ * Without an identity `port`, /health reports the port the request came in on.
  */
-function createHttpHandler() {
+function createHttpHandler(auth: HttpAuthOptions = {}, identity?: Omit<ServerIdentity, 'port'> & { port?: number }) {
 	return async (req: IncomingMessage, res: ServerResponse) => {
-		setCorsHeaders(res);
+		// Pages from other origins get no CORS headers and no access
+		if (!isOriginAllowed(req.headers.origin, auth.allowedOrigins)) {
+			sendJson(res, 403, { error: 'Origin not allowed' });
+			return;
+		}
+
+		setCorsHeaders(req, res);
 
 		// Handle preflight
 		if (req.method === 'OPTIONS') {
@@ -434,37 +1414,52 @@ function createHttpHandler() {
 			return;
 		}
 
-		const url = req.url || '/';
+		const { pathname: url, searchParams } = new URL(req.url || '/', 'http://localhost');
+		// Pages name their project; older clients are keyed by origin
+		const requestProject = req.headers.origin || UNKNOWN_PROJECT;
 
 		// GET /health
 		if (req.method === 'GET' && url === '/health') {
 			sendJson(res, 200, {
 				status: 'ok',
-				hasContext: storedContext !== null,
-				agentWatching,
+				...(identity ? { ...identity, port: identity.port ?? req.socket.localPort } : {}),
+				hasContext: findUnread() !== null,
+				agentWatching: watchQueue.length > 0,
 				watcherCount: watchQueue.length,
-				sseClients: sseClients.size
+				sseClients: sseClients.size,
+				pendingCommands: pendingCommands.size,
+				projects: listProjects()
 			});
 			return;
 		}
 
-		// GET /events — SSE endpoint for browser real-time updates
+		// GET /events — SSE endpoint for browser real-time updates.
+		// EventSource can't set headers, so the token may come as `?token=`
 		if (req.method === 'GET' && url === '/events') {
+			if (auth.authToken && !isValidToken(getBearerToken(req) ?? searchParams.get('token'), auth.authToken)) {
+				sendJson(res, 401, { error: 'Missing or invalid token' });
+				return;
+			}
 			res.writeHead(200, {
 				'Content-Type': 'text/event-stream',
 				'Cache-Control': 'no-cache',
-				'Connection': 'keep-alive',
-				'Access-Control-Allow-Origin': '*'
+				'Connection': 'keep-alive'
 			});
 
+			const project = searchParams.get('project') || requestProject;
+			const watching = isWatched(project);
+
 			// Send current status immediately
 			const statusPayload = JSON.stringify({
-				status: agentWatching ? 'watching' : 'idle',
-				message: agentWatching ? 'Claude Code is listening...' : 'No agent connected'
+				status: watching ? 'watching' : 'idle',
+				message: watching ? 'Claude Code is listening...' : 'No agent connected'
 			});
 			res.write(`event: agent-status\ndata: ${statusPayload}\n\n`);
 
-			sseClients.add(res);
+			const queue: McpQueueEvent = { tasks: taskQueue.list(project) };
+			res.write(`event: queue\ndata: ${JSON.stringify(queue)}\n\n`);
+
+			sseClients.set(res, project);
 
 			req.on('close', () => {
 				sseClients.delete(res);
@@ -474,26 +1469,119 @@ function createHttpHandler() {
 
 		// POST /context — browser sends grabbed context here
 		if (req.method === 'POST' && url === '/context') {
+			if (auth.authToken && !isValidToken(getBearerToken(req), auth.authToken)) {
+				sendJson(res, 401, { error: 'Missing or invalid token' });
+				return;
+			}
+
 			try {
 				const body = await readBody(req);
 				const data = JSON.parse(body);
 
 				if (!isValidContextPayload(data)) {
-					sendJson(res, 400, { error: 'Invalid payload. Expected { content: string[], prompt?: string }' });
+					sendJson(res, 400, { error: 'Invalid payload. Expected { version, content: string[], prompt?: string, data?: object }' });
 					return;
 				}
 
-				processIncomingContext(data);
+				// Envelopes without a version are the legacy text-only payload
+				if (data.version !== undefined && data.version !== CONTEXT_PAYLOAD_VERSION) {
+					sendJson(res, 400, { error: `Unsupported context version ${data.version}. Expected ${CONTEXT_PAYLOAD_VERSION}` });
+					return;
+				}
+
+				const screenshotError = validateScreenshots(data.screenshots);
+				if (screenshotError) {
+					sendJson(res, 400, { error: screenshotError });
+					return;
+				}
+
+				const agentWatching = processIncomingContext(data, data.project || requestProject);
 
 				sendJson(res, 200, { ok: true, agentWatching });
-			} catch {
-				sendJson(res, 400, { error: 'Invalid JSON' });
+			} catch (err) {
+				if (err instanceof PayloadTooLargeError) {
+					sendJson(res, 413, { error: err.message });
+				} else {
+					sendJson(res, 400, { error: 'Invalid JSON' });
+				}
+			}
+			return;
+		}
+
+		// POST /command-result — browser answers a command pushed over /events
+		if (req.method === 'POST' && url === '/command-result') {
+			if (auth.authToken && !isValidToken(getBearerToken(req), auth.authToken)) {
+				sendJson(res, 401, { error: 'Missing or invalid token' });
+				return;
+			}
+
+			try {
+				const data = JSON.parse(await readBody(req));
+
+				if (!isValidCommandResult(data)) {
+					sendJson(res, 400, { error: 'Invalid payload. Expected { id: string, ok: boolean, result?: string, data?: object, screenshots?: object[], error?: string }' });
+					return;
+				}
+
+				const screenshotError = data.ok ? validateScreenshots(data.screenshots) : null;
+				if (screenshotError) {
+					sendJson(res, 400, { error: screenshotError });
+					return;
+				}
+
+				// Another tab may have answered first, or the command timed out
+				const resolve = pendingCommands.get(data.id);
+				resolve?.(data);
+
+				sendJson(res, 200, { ok: true, accepted: !!resolve });
+			} catch (err) {
+				if (err instanceof PayloadTooLargeError) {
+					sendJson(res, 413, { error: err.message });
+				} else {
+					sendJson(res, 400, { error: 'Invalid JSON' });
+				}
+			}
+			return;
+		}
+
+		// POST /queue — browser reorders or cancels pending tasks
+		if (req.method === 'POST' && url === '/queue') {
+			if (auth.authToken && !isValidToken(getBearerToken(req), auth.authToken)) {
+				sendJson(res, 401, { error: 'Missing or invalid token' });
+				return;
+			}
+
+			try {
+				const data = JSON.parse(await readBody(req));
+
+				if (!isValidQueueAction(data)) {
+					sendJson(res, 400, { error: 'Invalid payload. Expected { action: "move", id: string, position: number } or { action: "cancel", id: string }' });
+					return;
+				}
+
+				const applied = data.action === 'move' ? taskQueue.move(data.id, data.position) : taskQueue.cancel(data.id);
+				if (!applied) {
+					sendJson(res, 409, { error: `Task "${data.id}" is not pending` });
+					return;
+				}
+
+				sendJson(res, 200, { ok: true });
+			} catch (err) {
+				if (err instanceof PayloadTooLargeError) {
+					sendJson(res, 413, { error: err.message });
+				} else {
+					sendJson(res, 400, { error: 'Invalid JSON' });
+				}
 			}
 			return;
 		}
 
-		// POST /mcp — MCP protocol endpoint (only in HTTP mode)
-		if (req.method === 'POST' && url === '/mcp') {
+		// /mcp — MCP protocol endpoint (only in HTTP mode): POST requests, GET notification stream, DELETE session
+		if (url === '/mcp' && (req.method === 'POST' || req.method === 'GET' || req.method === 'DELETE')) {
+			if (auth.authToken && !isValidToken(getBearerToken(req), auth.authToken)) {
+				sendJson(res, 401, { error: 'Missing or invalid token' });
+				return;
+			}
 			await handleMcpProtocol(req, res);
 			return;
 		}
@@ -506,7 +1594,11 @@ function createHttpHandler() {
 /**
  * Start the HTTP server on the given port.
  */
-async function startHttpListener(preferredPort: number): Promise<{ close: () => void; port: number }> {
+async function startHttpListener(
+	preferredPort: number,
+	auth: HttpAuthOptions = {},
+	projectRoot: string = process.cwd()
+): Promise<{ close: () => void; port: number }> {
 	let port: number;
 	try {
 		port = await findAvailablePort(preferredPort);
@@ -519,7 +1611,13 @@ async function startHttpListener(preferredPort: number): Promise<{ close: () =>
 	}
 
 	return new Promise((resolve, reject) => {
-		const server = createServer(createHttpHandler());
+		const handler = createHttpHandler(auth, { service: 'svelte-grab-mcp', projectRoot, port });
+		const server = createServer((req, res) => {
+			handler(req, res).catch((err) => {
+				console.error('[svelte-grab mcp] Request failed:', err?.message ?? err);
+				if (!res.headersSent) sendJson(res, 500, { error: 'Internal error' });
+			});
+		});
 
 		server.on('error', (err: NodeJS.ErrnoException) => {
 			reject(err);
@@ -534,35 +1632,39 @@ async function startHttpListener(preferredPort: number): Promise<{ close: () =>
 /**
  * Start the MCP server in HTTP mode.
  */
-async function startHttpServer(preferredPort: number): Promise<{ close: () => void }> {
-	const { close, port } = await startHttpListener(preferredPort);
+async function startHttpServer(preferredPort: number, auth: HttpAuthOptions, projectRoot?: string): Promise<{ close: () => void }> {
+	const { close, port } = await startHttpListener(preferredPort, auth, projectRoot);
 
 	console.log(`[svelte-grab mcp] HTTP server listening on http://localhost:${port}`);
 	console.log(`[svelte-grab mcp] Health check: http://localhost:${port}/health`);
 	console.log(`[svelte-grab mcp] Context endpoint: POST http://localhost:${port}/context`);
 	console.log(`[svelte-grab mcp] SSE events: http://localhost:${port}/events`);
+	console.log(`[svelte-grab mcp] Command results: POST http://localhost:${port}/command-result`);
+	console.log(`[svelte-grab mcp] Task queue: POST http://localhost:${port}/queue`);
+	if (!auth.authToken) {
+		console.log('[svelte-grab mcp] No auth token set — run `svelte-grab configure` to generate one.');
+	}
 
-	return { close };
+	return {
+		close: () => {
+			closeMcpHttpSessions();
+			close();
+		}
+	};
 }
 
 /**
  * Start the MCP server in stdio mode for direct Claude Code integration.
  * Also starts a sidecar HTTP server so the browser can POST context.
  */
-async function startStdioServer(httpPort: number): Promise<void> {
-	const { McpServer } = await import('@modelcontextprotocol/sdk/server/mcp.js');
+async function startStdioServer(httpPort: number, auth: HttpAuthOptions, projectRoot?: string): Promise<void> {
 	const { StdioServerTransport } = await import('@modelcontextprotocol/sdk/server/stdio.js');
 
-	const server = new McpServer({
-		name: 'svelte-grab',
-		version: '1.0.0'
-	});
-
-	registerMcpTools(server);
+	const server = await createMcpServer();
 
 	// Start sidecar HTTP server for browser context bridge
 	try {
-		const { port } = await startHttpListener(httpPort);
+		const { port } = await startHttpListener(httpPort, auth, projectRoot);
 		// Log to stderr since stdout is used by stdio transport
 		console.error(`[svelte-grab mcp] Sidecar HTTP on http://localhost:${port} (for browser context)`);
 	} catch {
@@ -573,19 +1675,48 @@ async function startStdioServer(httpPort: number): Promise<void> {
 	await server.connect(transport);
 }
 
+/**
+ * Load the persistent grab history of a project and continue its session numbering.
+ */
+function initHistory(projectRoot?: string): void {
+	historyStore = new GrabHistoryStore(defaultHistoryDir(projectRoot));
+	sessionCounter = Math.max(sessionCounter, historyStore.lastSessionNumber());
+}
+
+/**
+ * Create a Connect-style middleware serving the context bridge and the MCP
+ * protocol endpoint, for hosting them on another server (e.g. the Vite dev server).
+ * Mount it under a path prefix: request URLs are expected relative to it.
+ */
+export function createMcpMiddleware(options: McpMiddlewareOptions = {}) {
+	const { authToken, allowedOrigins, projectRoot = process.cwd(), history = true } = options;
+
+	if (history) initHistory(projectRoot);
+
+	const handler = createHttpHandler({ authToken, allowedOrigins }, { service: 'svelte-grab-mcp', projectRoot });
+	return (req: IncomingMessage, res: ServerResponse) => {
+		handler(req, res).catch((err) => {
+			console.error('[svelte-grab mcp] Request failed:', err?.message ?? err);
+			if (!res.headersSent) sendJson(res, 500, { error: 'Internal error' });
+		});
+	};
+}
+
 /**
  * Start the MCP server.
  * In stdio mode, connects via stdin/stdout for direct Claude Code integration
  * and starts a sidecar HTTP server for browser context.
- * In HTTP mode, starts an HTTP server with /health, /context, /events, and /mcp endpoints.
+ * In HTTP mode, starts an HTTP server with /health, /context, /events, /command-result, /queue, and /mcp endpoints.
  */
 export async function startMcpServer(options: McpServerOptions = {}): Promise<{ close: () => void } | void> {
-	const { port = DEFAULT_MCP_PORT, stdio = false } = options;
+	const { port = DEFAULT_MCP_PORT, stdio = false, authToken, allowedOrigins, projectRoot, history = true } = options;
+
+	if (history) initHistory(projectRoot);
 
 	if (stdio) {
-		await startStdioServer(port);
+		await startStdioServer(port, { authToken, allowedOrigins }, projectRoot);
 		return;
 	}
 
-	return startHttpServer(port);
+	return startHttpServer(port, { authToken, allowedOrigins }, projectRoot);
 }
@@ -0,0 +1,149 @@
+import type { McpTask, McpTaskStatus } from '../lib/core/mcp-protocol.js';
+
+/** Finished tasks kept for the browser's queue panel */
+const MAX_FINISHED_TASKS = 20;
+
+/** Pending tasks kept; the oldest are dropped when more arrive */
+const MAX_PENDING_TASKS = 50;
+
+interface QueueEntry<C> {
+	task: McpTask;
+	/** What the agent receives when it claims the task */
+	context: C;
+}
+
+/**
+ * FIFO queue of grab tasks, shared by all projects.
+ *
+ * Tasks are claimed oldest first, per project or across projects. Pending tasks
+ * can be reordered or cancelled; finished ones stay listed until newer tasks
+ * push them out. Past MAX_PENDING_TASKS, the oldest pending task is dropped and
+ * its context passed to `onDrop`. `onChange` is called with the project whose
+ * tasks changed.
+ */
+export class TaskQueue<C> {
+	private entries: QueueEntry<C>[] = [];
+
+	constructor(
+		private onChange: (project: string) => void = () => {},
+		private onDrop: (context: C) => void = () => {}
+	) {}
+
+	/**
+	 * Queue a new pending task, dropping the oldest pending one when the queue is full.
+	 */
+	add(task: Omit<McpTask, 'status'>, context: C): McpTask {
+		const entry = { task: { ...task, status: 'pending' as const }, context };
+		this.entries.push(entry);
+
+		const pending = this.entries.filter(e => e.task.status === 'pending').sort((a, b) => a.task.createdAt - b.task.createdAt);
+		for (const dropped of pending.slice(0, Math.max(pending.length - MAX_PENDING_TASKS, 0))) {
+			this.entries.splice(this.entries.indexOf(dropped), 1);
+			this.onDrop(dropped.context);
+			if (dropped.task.project !== task.project) this.onChange(dropped.task.project);
+		}
+
+		this.onChange(task.project);
+		return entry.task;
+	}
+
+	/**
+	 * Mark the oldest pending task (of `project`, or of any project) in progress.
+	 * Returns null when nothing is pending.
+	 */
+	claimNext(project?: string): QueueEntry<C> | null {
+		const entry = this.entries.find(e => e.task.status === 'pending' && (!project || e.task.project === project));
+		if (!entry) return null;
+
+		this.start(entry.task.id);
+		return entry;
+	}
+
+	/**
+	 * Mark a pending task in progress, e.g. when its grab reached the agent another way.
+	 */
+	start(id: string): void {
+		const entry = this.find(id);
+		if (entry?.task.status !== 'pending') return;
+
+		entry.task.status = 'in-progress';
+		entry.task.startedAt = Date.now();
+		this.onChange(entry.task.project);
+	}
+
+	/**
+	 * Mark a task done or failed. Returns it, or undefined when it is not queued.
+	 */
+	finish(id: string, status: Extract<McpTaskStatus, 'done' | 'failed'>, summary: string): McpTask | undefined {
+		const entry = this.find(id);
+		if (!entry) return undefined;
+
+		Object.assign(entry.task, { status, summary, finishedAt: Date.now() });
+		this.prune();
+		this.onChange(entry.task.project);
+		return entry.task;
+	}
+
+	/**
+	 * Remove a pending task. Returns false when it is unknown or already claimed.
+	 */
+	cancel(id: string): boolean {
+		const entry = this.find(id);
+		if (entry?.task.status !== 'pending') return false;
+
+		this.entries.splice(this.entries.indexOf(entry), 1);
+		this.onChange(entry.task.project);
+		return true;
+	}
+
+	/**
+	 * Move a pending task to `position` (0-based, clamped) among its project's
+	 * pending tasks. Returns false when it is unknown or already claimed.
+	 */
+	move(id: string, position: number): boolean {
+		const entry = this.find(id);
+		if (entry?.task.status !== 'pending') return false;
+
+		const { project } = entry.task;
+		this.entries.splice(this.entries.indexOf(entry), 1);
+
+		const pending = this.entries.filter(e => e.task.status === 'pending' && e.task.project === project);
+		const target = Math.min(Math.max(Math.floor(position), 0), pending.length);
+		const index = target < pending.length ? this.entries.indexOf(pending[target]) : this.lastIndexOf(pending) + 1;
+		this.entries.splice(index, 0, entry);
+
+		this.onChange(project);
+		return true;
+	}
+
+	get(id: string): McpTask | undefined {
+		return this.find(id)?.task;
+	}
+
+	/**
+	 * Tasks of a project (or all), in queue order.
+	 */
+	list(project?: string): McpTask[] {
+		return this.entries.filter(e => !project || e.task.project === project).map(e => ({ ...e.task }));
+	}
+
+	/** Number of tasks waiting to be claimed */
+	pendingCount(project?: string): number {
+		return this.entries.filter(e => e.task.status === 'pending' && (!project || e.task.project === project)).length;
+	}
+
+	private find(id: string): QueueEntry<C> | undefined {
+		return this.entries.find(e => e.task.id === id);
+	}
+
+	private lastIndexOf(pending: QueueEntry<C>[]): number {
+		return pending.length > 0 ? this.entries.indexOf(pending[pending.length - 1]) : this.entries.length - 1;
+	}
+
+	private prune(): void {
+		const finished = this.entries.filter(e => e.task.status === 'done' || e.task.status === 'failed');
+		for (const entry of finished.slice(0, Math.max(finished.length - MAX_FINISHED_TASKS, 0))) {
+			this.entries.splice(this.entries.indexOf(entry), 1);
+		}
+	}
+}
@@ -0,0 +1,266 @@
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import { access, copyFile, mkdir, rm } from 'node:fs/promises';
+import { join, relative, resolve } from 'node:path';
+import type { ChangedFile } from './protocol.js';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Files changed by one agent run, with the project trees on either side.
+ */
+export interface Checkpoint {
+	/** Git tree hash of the project before the run */
+	before: string;
+	/** Git tree hash of the project after the run */
+	after: string;
+	files: ChangedFile[];
+	timestamp: number;
+}
+
+const STATUS_MAP: Record<string, ChangedFile['status']> = {
+	A: 'added',
+	D: 'deleted'
+};
+
+/**
+ * Files changed since the checkpoint was taken (by the user or another run), so restoring it would lose work.
+ */
+export class CheckpointConflictError extends Error {
+	constructor(public files: string[]) {
+		super(`Files changed since the checkpoint: ${files.join(', ')}`);
+		this.name = 'CheckpointConflictError';
+	}
+}
+
+/**
+ * File-level checkpoints for agent sessions, stored as git tree objects.
+ *
+ * Each run snapshots through its own index under `.svelte-grab/`, so the
+ * user's staging area is never touched, concurrent runs don't share a lock,
+ * and the working tree only changes on undo/redo. Files ignored by git are not tracked.
+ */
+export class CheckpointStore {
+	private root: string | null = null;
+	private scope = '.';
+	private indexDir: string;
+	private gitIndex = '';
+	private nextIndex = 0;
+	private ready: Promise<boolean> | null = null;
+	// Index of each session's in-flight run, from snapshot() until record()
+	private runIndexes = new Map<string, string>();
+	private undoStacks = new Map<string, Checkpoint[]>();
+	private redoStacks = new Map<string, Checkpoint[]>();
+
+	constructor(private projectRoot: string = process.cwd()) {
+		this.indexDir = join(projectRoot, '.svelte-grab', 'checkpoints');
+	}
+
+	/**
+	 * Whether checkpoints can be taken (the project is inside a git work tree).
+	 */
+	isAvailable(): Promise<boolean> {
+		this.ready ??= this.init();
+		return this.ready;
+	}
+
+	private async init(): Promise<boolean> {
+		try {
+			const { stdout } = await execFileAsync('git', ['rev-parse', '--show-toplevel'], { cwd: this.projectRoot });
+			this.root = stdout.trim();
+			this.scope = relative(this.root, this.projectRoot) || '.';
+			const { stdout: gitIndex } = await execFileAsync('git', ['rev-parse', '--git-path', 'index'], { cwd: this.root });
+			this.gitIndex = resolve(this.root, gitIndex.trim());
+			await mkdir(this.indexDir, { recursive: true });
+			return true;
+		} catch {
+			return false;
+		}
+	}
+
+	private async git(args: string[], indexFile?: string): Promise<string> {
+		const { stdout } = await execFileAsync('git', args, {
+			cwd: this.root!,
+			env: indexFile ? { ...process.env, GIT_INDEX_FILE: indexFile } : process.env,
+			maxBuffer: 64 * 1024 * 1024
+		});
+		return stdout;
+	}
+
+	private newIndexPath(): string {
+		return join(this.indexDir, `${process.pid}-${++this.nextIndex}.index`);
+	}
+
+	/**
+	 * A new private index, seeded from the repository's so unchanged files are not rehashed.
+	 */
+	private async createIndex(): Promise<string> {
+		const indexFile = this.newIndexPath();
+		try {
+			await copyFile(this.gitIndex, indexFile);
+		} catch {
+			// No commits or staged files yet: start from an empty index
+		}
+		return indexFile;
+	}
+
+	private async writeTree(indexFile: string): Promise<string> {
+		const exclude = `:(exclude)${join(this.scope, '.svelte-grab')}`;
+		await this.git(['add', '--all', '--', this.scope, exclude], indexFile);
+		return (await this.git(['write-tree'], indexFile)).trim();
+	}
+
+	/**
+	 * Snapshot the project's files into a git tree before a session's run and return its hash.
+	 */
+	async snapshot(sessionId: string): Promise<string> {
+		const indexFile = await this.createIndex();
+		try {
+			const tree = await this.writeTree(indexFile);
+			this.runIndexes.set(sessionId, indexFile);
+			return tree;
+		} catch (err) {
+			await rm(indexFile, { force: true });
+			throw err;
+		}
+	}
+
+	private async diff(from: string, to: string): Promise<ChangedFile[]> {
+		const out = await this.git(['diff-tree', '-r', '--no-renames', '--name-status', '-z', from, to]);
+		const parts = out.split('\0').filter(Boolean);
+		const files: ChangedFile[] = [];
+		for (let i = 0; i + 1 < parts.length; i += 2) {
+			files.push({ path: parts[i + 1], status: STATUS_MAP[parts[i]] ?? 'modified' });
+		}
+		return files;
+	}
+
+	/**
+	 * Record what a run changed since `before`.
+	 * Returns null when no files changed. A new checkpoint clears the session's redo stack.
+	 *
+	 * @param edited - Paths the run reported editing. When given, other changes in the
+	 *   same period (the user's, or a concurrent run's) are not attributed to this run.
+	 */
+	async record(sessionId: string, before: string, edited?: string[]): Promise<Checkpoint | null> {
+		const indexFile = this.runIndexes.get(sessionId) ?? await this.createIndex();
+		this.runIndexes.delete(sessionId);
+		let after: string;
+		try {
+			after = await this.writeTree(indexFile);
+		} finally {
+			await rm(indexFile, { force: true });
+		}
+		if (after === before) return null;
+
+		let files = await this.diff(before, after);
+		if (edited && edited.length > 0) {
+			const paths = new Set(edited.map(p => relative(this.root!, resolve(this.projectRoot, p))));
+			files = files.filter(f => paths.has(f.path));
+		}
+		if (files.length === 0) return null;
+
+		const checkpoint: Checkpoint = { before, after, files, timestamp: Date.now() };
+		if (!this.undoStacks.has(sessionId)) {
+			this.undoStacks.set(sessionId, []);
+		}
+		this.undoStacks.get(sessionId)!.push(checkpoint);
+		this.redoStacks.delete(sessionId);
+		return checkpoint;
+	}
+
+	/**
+	 * Restore the files of the session's last checkpoint to their state before the run.
+	 * Throws a CheckpointConflictError, restoring nothing, when any of them changed since the run.
+	 */
+	async undo(sessionId: string): Promise<Checkpoint | null> {
+		const checkpoint = this.undoStacks.get(sessionId)?.at(-1);
+		if (!checkpoint) return null;
+
+		await this.checkUnchanged(checkpoint.after, checkpoint.files);
+		await this.restore(checkpoint.before, checkpoint.files, 'added');
+		this.undoStacks.get(sessionId)!.pop();
+
+		if (!this.redoStacks.has(sessionId)) {
+			this.redoStacks.set(sessionId, []);
+		}
+		this.redoStacks.get(sessionId)!.push(checkpoint);
+		return checkpoint;
+	}
+
+	/**
+	 * Re-apply the files of the session's last undone checkpoint.
+	 * Throws a CheckpointConflictError, restoring nothing, when any of them changed since the undo.
+	 */
+	async redo(sessionId: string): Promise<Checkpoint | null> {
+		const checkpoint = this.redoStacks.get(sessionId)?.at(-1);
+		if (!checkpoint) return null;
+
+		await this.checkUnchanged(checkpoint.before, checkpoint.files);
+		await this.restore(checkpoint.after, checkpoint.files, 'deleted');
+		this.redoStacks.get(sessionId)!.pop();
+
+		if (!this.undoStacks.has(sessionId)) {
+			this.undoStacks.set(sessionId, []);
+		}
+		this.undoStacks.get(sessionId)!.push(checkpoint);
+		return checkpoint;
+	}
+
+	/**
+	 * Throw if any of the files no longer matches `tree`: edited, created or deleted since.
+	 */
+	private async checkUnchanged(tree: string, files: ChangedFile[]): Promise<void> {
+		const paths = files.map(f => f.path);
+		const expected = new Map<string, string>();
+		const listing = await this.git(['ls-tree', '-r', '-z', tree, '--', ...paths]);
+		for (const line of listing.split('\0').filter(Boolean)) {
+			// <mode> <type> <hash>\t<path>
+			const tab = line.indexOf('\t');
+			expected.set(line.slice(tab + 1), line.slice(0, tab).split(' ')[2]);
+		}
+
+		const present: string[] = [];
+		for (const path of paths) {
+			if (await exists(join(this.root!, path))) present.push(path);
+		}
+		const hashes = present.length > 0 ? (await this.git(['hash-object', '--', ...present])).trim().split('\n') : [];
+		const actual = new Map(present.map((path, i) => [path, hashes[i]]));
+
+		const conflicts = paths.filter(path => expected.get(path) !== actual.get(path));
+		if (conflicts.length > 0) {
+			throw new CheckpointConflictError(conflicts);
+		}
+	}
+
+	/**
+	 * Write files from a tree back to the working tree.
+	 * Files with `absentStatus` do not exist in that tree and are deleted instead.
+	 */
+	private async restore(tree: string, files: ChangedFile[], absentStatus: ChangedFile['status']): Promise<void> {
+		const toWrite = files.filter(f => f.status !== absentStatus).map(f => f.path);
+		const toRemove = files.filter(f => f.status === absentStatus).map(f => f.path);
+
+		if (toWrite.length > 0) {
+			// Checking out also stages the files; keep that out of every index in use
+			const indexFile = this.newIndexPath();
+			try {
+				await this.git(['checkout', tree, '--', ...toWrite], indexFile);
+			} finally {
+				await rm(indexFile, { force: true });
+			}
+		}
+		for (const path of toRemove) {
+			await rm(join(this.root!, path), { force: true });
+		}
+	}
+}
+
+async function exists(path: string): Promise<boolean> {
+	try {
+		await access(path);
+		return true;
+	} catch {
+		return false;
+	}
+}
@@ -7,15 +7,24 @@
 import type { AgentProvider, AgentProviderCallbacks } from './providers/base.js';
 import type {
 	AgentStatusMessage,
+	AgentEventMessage,
 	AgentDoneMessage,
-	AgentErrorMessage
+	AgentErrorMessage,
+	RegisterHandlerMessage,
+	UnregisterHandlerMessage,
+	InvokeHandlerMessage,
+	ServerMessage
 } from './protocol.js';
+import { RELAY_PROTOCOL_VERSION } from './protocol.js';
+import { loadAuthToken } from '../utils/auth.js';
 
 export interface ConnectRelayOptions {
 	/** Port of the relay server. Default: 4722 */
 	port?: number;
 	/** Full WebSocket URL (overrides port if provided) */
 	url?: string;
+	/** Relay auth token, sent as the `token` query parameter. Default: loaded from `.env.local` */
+	token?: string;
 	/** Agent provider to register as a remote handler */
 	provider: AgentProvider;
 }
@@ -25,43 +34,16 @@ export interface RelayConnection {
 	disconnect: () => Promise<void>;
 }
 
-/**
- * Message sent to register this provider as a handler on the relay.
- */
-interface RegisterHandlerMessage {
-	type: 'register-handler';
-	agentId: string;
-}
-
-/**
- * Message sent to unregister this provider from the relay.
- */
-interface UnregisterHandlerMessage {
-	type: 'unregister-handler';
-	agentId: string;
-}
-
-/**
- * Message received from the relay to invoke a handler method.
- */
-interface InvokeHandlerMessage {
-	type: 'invoke-handler';
-	method: 'run' | 'abort' | 'undo' | 'redo';
-	sessionId: string;
-	payload?: {
-		content?: string[];
-		prompt?: string;
-		selectedCount?: number;
-	};
-}
-
 /**
  * Connect an AgentProvider to the relay server as a remote handler.
  * The provider will receive forwarded requests from browser clients.
  */
 export async function connectToRelay(options: ConnectRelayOptions): Promise<RelayConnection> {
-	const { port = 4722, url, provider } = options;
-	const wsUrl = url ?? `ws://localhost:${port}?handler=true&agentId=${encodeURIComponent(provider.name)}`;
+	const { port = 4722, url, provider, token = loadAuthToken() } = options;
+	const wsUrl = new URL(url ?? `ws://localhost:${port}?handler=true&agentId=${encodeURIComponent(provider.name)}`);
+	if (token) {
+		wsUrl.searchParams.set('token', token);
+	}
 
 	// Lazy-load ws
 	let WebSocket: any;
@@ -76,7 +58,7 @@ export async function connectToRelay(options: ConnectRelayOptions): Promise<Rela
 		let socket: any;
 
 		try {
-			socket = new WebSocket(wsUrl);
+			socket = new WebSocket(wsUrl.toString());
 		} catch (err) {
 			reject(new Error(`Failed to create WebSocket connection: ${err}`));
 			return;
@@ -106,6 +88,14 @@ export async function connectToRelay(options: ConnectRelayOptions): Promise<Rela
 					};
 					sendJson(msg);
 				},
+				onEvent: (event) => {
+					const msg: AgentEventMessage = {
+						type: 'agent-event',
+						sessionId,
+						event
+					};
+					sendJson(msg);
+				},
 				onDone: (result: string) => {
 					const msg: AgentDoneMessage = {
 						type: 'agent-done',
@@ -118,7 +108,8 @@ export async function connectToRelay(options: ConnectRelayOptions): Promise<Rela
 					const msg: AgentErrorMessage = {
 						type: 'agent-error',
 						sessionId,
-						error
+						error,
+						code: 'agent-failed'
 					};
 					sendJson(msg);
 				}
@@ -129,11 +120,12 @@ export async function connectToRelay(options: ConnectRelayOptions): Promise<Rela
 			// Register this provider as a handler
 			const registerMsg: RegisterHandlerMessage = {
 				type: 'register-handler',
-				agentId: provider.name
+				agentId: provider.name,
+				protocolVersion: RELAY_PROTOCOL_VERSION
 			};
 			sendJson(registerMsg);
 
-			console.log(`[svelte-grab connection] Connected to relay at ${wsUrl}`);
+			console.log(`[svelte-grab connection] Connected to relay at ${wsUrl.protocol}//${wsUrl.host}`);
 			console.log(`[svelte-grab connection] Registered handler: ${provider.name}`);
 
 			resolve({
@@ -158,13 +150,19 @@ export async function connectToRelay(options: ConnectRelayOptions): Promise<Rela
 		});
 
 		socket.on('message', async (data: any) => {
-			let msg: InvokeHandlerMessage;
+			let msg: InvokeHandlerMessage | ServerMessage;
 			try {
 				msg = JSON.parse(data.toString());
 			} catch {
 				return;
 			}
 
+			// Errors not tied to a session come from the relay itself (e.g. version mismatch)
+			if (msg.type === 'agent-error' && !msg.sessionId) {
+				console.error(`[svelte-grab connection] Relay rejected handler (${msg.code}): ${msg.error}`);
+				return;
+			}
+
 			if (msg.type !== 'invoke-handler') return;
 
 			const callbacks = createCallbacks(msg.sessionId);
@@ -192,6 +190,10 @@ export async function connectToRelay(options: ConnectRelayOptions): Promise<Rela
 						await provider.redo(msg.sessionId, callbacks);
 						break;
 					}
+					case 'resume': {
+						await provider.resume(msg.sessionId, msg.payload?.prompt ?? '', callbacks);
+						break;
+					}
 				}
 			} catch (err) {
 				callbacks.onError(`Handler error: ${err instanceof Error ? err.message : String(err)}`);
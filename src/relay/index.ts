@@ -1,23 +1,51 @@
 export { createRelayServer } from './server.js';
 export type { RelayServerOptions } from './server.js';
-export type { AgentProvider, AgentProviderCallbacks } from './providers/base.js';
+export type { AgentProvider, AgentProviderCallbacks, ProviderSessionState } from './providers/base.js';
+export { MemorySessionStore, JsonFileSessionStore, defaultSessionsPath, DEFAULT_SESSION_TTL } from './sessions.js';
+export type { SessionStore, SessionRecord, SessionStoreOptions, JsonFileSessionStoreOptions } from './sessions.js';
+export { RequestQueue } from './queue.js';
+export type { QueueJob, RequestQueueHooks } from './queue.js';
 export { ClaudeCodeProvider } from './providers/claude-code.js';
 export { CursorProvider } from './providers/cursor.js';
 export { CopilotProvider } from './providers/copilot.js';
 export { CodexProvider } from './providers/codex.js';
+export { CommandProvider } from './providers/command.js';
+export type { CommandProviderConfig, CommandEventMapping } from './providers/command.js';
+export { CheckpointStore, CheckpointConflictError } from './checkpoints.js';
+export type { Checkpoint } from './checkpoints.js';
 export { connectToRelay } from './connection.js';
 export type { ConnectRelayOptions, RelayConnection } from './connection.js';
 
+export { RELAY_PROTOCOL_VERSION, parseRelayMessage, isCompatibleProtocolVersion } from './protocol.js';
 export type {
 	ClientMessage,
 	ServerMessage,
+	HandlerMessage,
+	RelayErrorCode,
+	RelayParseResult,
 	AgentRequestMessage,
 	AgentAbortMessage,
 	AgentUndoMessage,
+	AgentRedoMessage,
+	AgentResumeMessage,
+	AgentRetryMessage,
+	AgentCancelMessage,
+	AgentQueueMessage,
+	RelayQueueState,
+	AgentSubscribeMessage,
+	AgentUnsubscribeMessage,
+	AgentSubscribedMessage,
+	AgentSessionMessage,
 	AgentStatusMessage,
+	AgentEventMessage,
+	AgentEvent,
+	ChangedFile,
 	AgentDoneMessage,
 	AgentErrorMessage,
 	HandlersMessage,
 	HealthMessage,
-	HealthResponseMessage
+	HealthResponseMessage,
+	RegisterHandlerMessage,
+	UnregisterHandlerMessage,
+	InvokeHandlerMessage
 } from './protocol.js';
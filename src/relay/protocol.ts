@@ -1,80 +1,6 @@
 /**
  * WebSocket relay protocol message types.
- * Shared between client and server.
+ * The canonical definitions live in the browser bundle so client and server share one source.
  */
 
-// Client -> Server messages
-export interface AgentRequestMessage {
-	type: 'agent-request';
-	agentId: string;
-	sessionId: string;
-	context: {
-		content: string[];
-		prompt: string;
-		selectedCount: number;
-	};
-}
-
-export interface AgentAbortMessage {
-	type: 'agent-abort';
-	sessionId: string;
-}
-
-export interface AgentUndoMessage {
-	type: 'agent-undo';
-	sessionId: string;
-}
-
-export interface AgentRedoMessage {
-	type: 'agent-redo';
-	sessionId: string;
-}
-
-export interface AgentResumeMessage {
-	type: 'agent-resume';
-	sessionId: string;
-	prompt: string;
-}
-
-export interface AgentRetryMessage {
-	type: 'agent-retry';
-	sessionId: string;
-}
-
-export interface HealthMessage {
-	type: 'health';
-}
-
-export type ClientMessage = AgentRequestMessage | AgentAbortMessage | AgentUndoMessage | AgentRedoMessage | AgentResumeMessage | AgentRetryMessage | HealthMessage;
-
-// Server -> Client messages
-export interface AgentStatusMessage {
-	type: 'agent-status';
-	sessionId: string;
-	message: string;
-}
-
-export interface AgentDoneMessage {
-	type: 'agent-done';
-	sessionId: string;
-	result: string;
-}
-
-export interface AgentErrorMessage {
-	type: 'agent-error';
-	sessionId: string;
-	error: string;
-}
-
-export interface HandlersMessage {
-	type: 'handlers';
-	agents: string[];
-}
-
-export interface HealthResponseMessage {
-	type: 'health';
-	status: 'ok';
-	agents: string[];
-}
-
-export type ServerMessage = AgentStatusMessage | AgentDoneMessage | AgentErrorMessage | HandlersMessage | HealthResponseMessage;
+export * from '../lib/core/relay-protocol.js';
@@ -3,12 +3,32 @@
  * Implement this to add support for different AI agent backends.
  */
 
+import type { AgentEvent } from '../protocol.js';
+
 export interface AgentProviderCallbacks {
 	onStatus: (message: string) => void;
+	/** Structured progress: tool calls, file reads/edits, token usage */
+	onEvent?: (event: AgentEvent) => void;
 	onDone: (result: string) => void;
 	onError: (error: string) => void;
 }
 
+export interface ProviderAvailability {
+	available: boolean;
+	/** Why the provider cannot run (missing CLI or SDK) */
+	reason?: string;
+}
+
+/**
+ * Provider-side state of a session, persisted by the relay so retry/resume survive restarts.
+ */
+export interface ProviderSessionState {
+	prompts: string[];
+	results: string[];
+	/** Backend conversation ID used to resume (Cursor chatId, Codex threadId, ...) */
+	resumeToken?: string;
+}
+
 export interface AgentProvider {
 	/** Unique provider/agent name */
 	readonly name: string;
@@ -33,12 +53,14 @@ export interface AgentProvider {
 	/**
 	 * Undo the last change made by the agent.
 	 * Sends "undo the last change" as a follow-up prompt.
+	 * Only used when the relay cannot take file checkpoints (no git repository).
 	 */
 	undo(sessionId: string, callbacks: AgentProviderCallbacks): Promise<void>;
 
 	/**
 	 * Redo the last undone change.
 	 * Sends "redo the change you just undid" as a follow-up prompt.
+	 * Only used when the relay cannot take file checkpoints (no git repository).
 	 */
 	redo(sessionId: string, callbacks: AgentProviderCallbacks): Promise<void>;
 
@@ -47,4 +69,21 @@ export interface AgentProvider {
 	 * Sends a new prompt in the context of the previous session.
 	 */
 	resume(sessionId: string, prompt: string, callbacks: AgentProviderCallbacks): Promise<void>;
+
+	/**
+	 * Check whether the provider's CLI or SDK is installed.
+	 * Providers without this method are assumed to be available.
+	 */
+	checkAvailability?(): Promise<ProviderAvailability>;
+
+	/**
+	 * Snapshot a session's prompt/result history and resume token for persistence.
+	 */
+	exportSession?(sessionId: string): ProviderSessionState | undefined;
+
+	/**
+	 * Restore a session persisted by a previous relay process.
+	 * Ignored when the session is already known in memory.
+	 */
+	importSession?(sessionId: string, state: ProviderSessionState): void;
 }
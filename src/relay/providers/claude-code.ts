@@ -1,4 +1,6 @@
-import type { AgentProvider, AgentProviderCallbacks } from './base.js';
+import type { AgentProvider, AgentProviderCallbacks, ProviderAvailability, ProviderSessionState } from './base.js';
+import type { AgentEvent } from '../protocol.js';
+import { findEditRange, type LineRange } from './edit-range.js';
 
 /**
  * Claude Code agent provider using @anthropic-ai/claude-agent-sdk.
@@ -9,6 +11,46 @@ interface SessionHistory {
 	results: string[];
 }
 
+const FILE_EDIT_TOOLS = new Set(['Edit', 'MultiEdit', 'Write', 'NotebookEdit']);
+
+/** A file edit tool call waiting for its result, keyed by tool_use id */
+type PendingEdits = Map<string, { name: string; path: string; input: Record<string, any> }>;
+
+function editedPath(name: string, input: Record<string, any>): string | undefined {
+	return FILE_EDIT_TOOLS.has(name) ? input.file_path ?? input.notebook_path : undefined;
+}
+
+/**
+ * Map a Claude Code tool_use block to a structured agent event.
+ * File edits are reported once their result arrives (see `editRange`).
+ */
+function toolUseToEvent(name: string, input: Record<string, any>): AgentEvent {
+	const path: string | undefined = input.file_path ?? input.notebook_path;
+	if (name === 'Read' && path) {
+		return { kind: 'file-read', path };
+	}
+	return { kind: 'tool-call', tool: name, summary: input.command ?? input.pattern ?? path };
+}
+
+/**
+ * Lines an applied Edit/MultiEdit/Write call wrote, found by locating its new text in the file.
+ */
+function editRange(name: string, path: string, input: Record<string, any>): LineRange | undefined {
+	switch (name) {
+		case 'Write':
+			return typeof input.content === 'string' ? findEditRange(path, [input.content]) : undefined;
+		case 'Edit':
+			return typeof input.new_string === 'string' ? findEditRange(path, [input.new_string], !!input.replace_all) : undefined;
+		case 'MultiEdit': {
+			const edits: any[] = Array.isArray(input.edits) ? input.edits : [];
+			if (edits.some(e => typeof e?.new_string !== 'string')) return undefined;
+			return findEditRange(path, edits.map(e => e.new_string), edits.some(e => e.replace_all));
+		}
+		default:
+			return undefined;
+	}
+}
+
 export class ClaudeCodeProvider implements AgentProvider {
 	readonly name = 'claude-code';
 	private activeSessions = new Map<string, AbortController>();
@@ -31,6 +73,45 @@ export class ClaudeCodeProvider implements AgentProvider {
 		}
 	}
 
+	async checkAvailability(): Promise<ProviderAvailability> {
+		try {
+			await this.loadSDK();
+			return { available: true };
+		} catch (err: any) {
+			return { available: false, reason: err?.message };
+		}
+	}
+
+	/**
+	 * Emit structured events for tool use and token usage in a streamed SDK message.
+	 */
+	private emitEvents(message: any, pendingEdits: PendingEdits, callbacks: AgentProviderCallbacks): void {
+		if (message?.type === 'assistant') {
+			for (const block of message.message?.content ?? []) {
+				if (block?.type !== 'tool_use') continue;
+				const input = block.input ?? {};
+				const path = editedPath(block.name, input);
+				if (path) pendingEdits.set(block.id, { name: block.name, path, input });
+				else callbacks.onEvent?.(toolUseToEvent(block.name, input));
+			}
+		} else if (message?.type === 'user' && Array.isArray(message.message?.content)) {
+			// Tool results: edits are on disk now, so their lines can be found
+			for (const block of message.message.content) {
+				const edit = block?.type === 'tool_result' ? pendingEdits.get(block.tool_use_id) : undefined;
+				if (!edit) continue;
+				pendingEdits.delete(block.tool_use_id);
+				if (block.is_error) continue;
+				callbacks.onEvent?.({ kind: 'file-edit', path: edit.path, ...editRange(edit.name, edit.path, edit.input) });
+			}
+		} else if (message?.type === 'result' && message.usage) {
+			callbacks.onEvent?.({
+				kind: 'token-usage',
+				inputTokens: message.usage.input_tokens ?? 0,
+				outputTokens: message.usage.output_tokens ?? 0
+			});
+		}
+	}
+
 	async handleRequest(
 		sessionId: string,
 		context: { content: string[]; prompt: string; selectedCount: number },
@@ -58,12 +139,25 @@ export class ClaudeCodeProvider implements AgentProvider {
 
 			callbacks.onStatus('Processing...');
 
-			// Use the SDK's query function
-			const result = await sdk.query({
+			// Use the SDK's query function. Streaming SDK versions yield messages;
+			// older ones resolve directly to the result.
+			const response = sdk.query({
 				prompt: fullPrompt,
 				signal: controller.signal
 			});
 
+			let result: unknown;
+			if (response && typeof response[Symbol.asyncIterator] === 'function') {
+				const pendingEdits: PendingEdits = new Map();
+				for await (const message of response) {
+					if (controller.signal.aborted) return;
+					this.emitEvents(message, pendingEdits, callbacks);
+					if (message?.type === 'result') result = message.result;
+				}
+			} else {
+				result = await response;
+			}
+
 			if (controller.signal.aborted) return;
 
 			const resultStr = typeof result === 'string' ? result : JSON.stringify(result);
@@ -123,4 +217,14 @@ export class ClaudeCodeProvider implements AgentProvider {
 			selectedCount: 0
 		}, callbacks);
 	}
+
+	exportSession(sessionId: string): ProviderSessionState | undefined {
+		const history = this.sessionHistory.get(sessionId);
+		return history && { prompts: history.prompts, results: history.results };
+	}
+
+	importSession(sessionId: string, state: ProviderSessionState): void {
+		if (this.sessionHistory.has(sessionId)) return;
+		this.sessionHistory.set(sessionId, { prompts: [...state.prompts], results: [...state.results] });
+	}
 }
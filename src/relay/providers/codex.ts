@@ -1,4 +1,5 @@
-import type { AgentProvider, AgentProviderCallbacks } from './base.js';
+import type { AgentProvider, AgentProviderCallbacks, ProviderAvailability, ProviderSessionState } from './base.js';
+import { wholeFileRange } from './edit-range.js';
 
 /**
  * OpenAI Codex agent provider using @openai/codex-sdk.
@@ -34,6 +35,37 @@ export class CodexProvider implements AgentProvider {
 		}
 	}
 
+	async checkAvailability(): Promise<ProviderAvailability> {
+		try {
+			await this.loadSDK();
+			return { available: true };
+		} catch (err: any) {
+			return { available: false, reason: err?.message };
+		}
+	}
+
+	/**
+	 * Emit structured events for file changes and tool calls in a completed thread item.
+	 */
+	private emitItemEvents(item: any, callbacks: AgentProviderCallbacks): void {
+		switch (item?.type) {
+			case 'file_change':
+				// Changes carry no hunks, so only added files get a line range
+				for (const change of item.changes ?? []) {
+					if (!change?.path) continue;
+					const range = change.kind === 'add' ? wholeFileRange(change.path) : undefined;
+					callbacks.onEvent?.({ kind: 'file-edit', path: change.path, ...range });
+				}
+				break;
+			case 'command_execution':
+				callbacks.onEvent?.({ kind: 'tool-call', tool: 'shell', summary: item.command });
+				break;
+			case 'mcp_tool_call':
+				callbacks.onEvent?.({ kind: 'tool-call', tool: item.tool ?? 'mcp', summary: item.server });
+				break;
+		}
+	}
+
 	async handleRequest(
 		sessionId: string,
 		context: { content: string[]; prompt: string; selectedCount: number },
@@ -84,6 +116,7 @@ export class CodexProvider implements AgentProvider {
 
 				switch (event.type) {
 					case 'item.completed': {
+						this.emitItemEvents(event.item, callbacks);
 						const content = event.item?.content || event.item?.text || '';
 						const statusText = typeof content === 'string'
 							? content.slice(0, 500)
@@ -102,6 +135,16 @@ export class CodexProvider implements AgentProvider {
 						}
 						break;
 					}
+					case 'turn.completed': {
+						if (event.usage) {
+							callbacks.onEvent?.({
+								kind: 'token-usage',
+								inputTokens: event.usage.input_tokens ?? 0,
+								outputTokens: event.usage.output_tokens ?? 0
+							});
+						}
+						break;
+					}
 					case 'error': {
 						const errMsg = event.error?.message || event.message || 'Codex stream error';
 						callbacks.onError(errMsg);
@@ -171,4 +214,14 @@ export class CodexProvider implements AgentProvider {
 			selectedCount: 0
 		}, callbacks);
 	}
+
+	exportSession(sessionId: string): ProviderSessionState | undefined {
+		const history = this.sessionHistory.get(sessionId);
+		return history && { prompts: history.prompts, results: history.results, resumeToken: history.threadId };
+	}
+
+	importSession(sessionId: string, state: ProviderSessionState): void {
+		if (this.sessionHistory.has(sessionId)) return;
+		this.sessionHistory.set(sessionId, { prompts: [...state.prompts], results: [...state.results], threadId: state.resumeToken });
+	}
 }
@@ -0,0 +1,364 @@
+import { spawn, type ChildProcess } from 'node:child_process';
+import type { AgentProvider, AgentProviderCallbacks, ProviderAvailability, ProviderSessionState } from './base.js';
+import type { AgentEvent } from '../protocol.js';
+import { isCommandOnPath } from '../../utils/command.js';
+
+/**
+ * Generic agent provider that spawns any CLI agent described in
+ * svelte-grab.config.json (aider, local scripts, ...).
+ *
+ * Argument templates may use `{prompt}`, `{sessionId}` and `{resumeToken}`.
+ */
+export interface CommandProviderConfig {
+	/** Executable to spawn (name on PATH, or a path relative to the project) */
+	command: string;
+	/** Arguments. When the prompt is passed as an argument and no arg contains `{prompt}`, it is appended. */
+	args?: string[];
+	/** How the prompt reaches the agent. Default: 'argument' */
+	promptInput?: 'argument' | 'stdin';
+	/** 'text': each stdout line is a status update and stdout is the result. 'ndjson': see `events`. Default: 'text' */
+	output?: 'text' | 'ndjson';
+	/** Extra args added (before an appended prompt) when the session has a resume token, e.g. ["--resume", "{resumeToken}"] */
+	resumeArgs?: string[];
+	/** How to read NDJSON events (output: 'ndjson') */
+	events?: CommandEventMapping;
+	/** Working directory, relative to the directory of svelte-grab.config.json. Default: that directory */
+	cwd?: string;
+	/** Extra environment variables */
+	env?: Record<string, string>;
+}
+
+/**
+ * Matches NDJSON lines to a kind of event. Every `match` field (dot path) must equal the given value.
+ */
+interface EventRule {
+	match?: Record<string, string | number | boolean>;
+}
+
+/**
+ * Maps an agent's NDJSON events onto svelte-grab callbacks. Field values are dot paths
+ * into the event (e.g. "message.content" or "usage.input_tokens"). One line may match several rules.
+ */
+export interface CommandEventMapping {
+	/** Path to a session/chat ID to pass back through `{resumeToken}` on the next run */
+	resumeToken?: string;
+	status?: EventRule & { text: string };
+	/** Final answer; the last match becomes the result passed to onDone */
+	result?: EventRule & { text: string };
+	/** Reported via onError; the run fails even if the process exits with 0 */
+	error?: EventRule & { text: string };
+	toolCall?: EventRule & { tool: string; summary?: string };
+	fileRead?: EventRule & { path: string };
+	fileEdit?: EventRule & { path: string; startLine?: string; endLine?: string };
+	tokenUsage?: EventRule & { inputTokens: string; outputTokens: string };
+}
+
+interface SessionHistory {
+	prompts: string[];
+	results: string[];
+	resumeToken?: string;
+}
+
+/**
+ * Read a dot path (e.g. "a.b.0.c") from a parsed JSON value.
+ */
+function getPath(value: unknown, path: string): unknown {
+	let current: any = value;
+	for (const key of path.split('.')) {
+		if (current === null || typeof current !== 'object') return undefined;
+		current = current[key];
+	}
+	return current;
+}
+
+function getString(value: unknown, path: string | undefined): string | undefined {
+	if (!path) return undefined;
+	const found = getPath(value, path);
+	return typeof found === 'string' || typeof found === 'number' ? String(found) : undefined;
+}
+
+function getNumber(value: unknown, path: string | undefined): number | undefined {
+	if (!path) return undefined;
+	const found = getPath(value, path);
+	return typeof found === 'number' ? found : undefined;
+}
+
+function matches(event: unknown, rule: EventRule | undefined): boolean {
+	if (!rule) return false;
+	return Object.entries(rule.match ?? {}).every(([path, expected]) => getPath(event, path) === expected);
+}
+
+/**
+ * Map one NDJSON event to structured agent events using the configured rules.
+ */
+function toAgentEvents(event: unknown, mapping: CommandEventMapping): AgentEvent[] {
+	const events: AgentEvent[] = [];
+
+	const { toolCall, fileRead, fileEdit, tokenUsage } = mapping;
+	if (matches(event, fileEdit)) {
+		const path = getString(event, fileEdit!.path);
+		if (path) {
+			events.push({
+				kind: 'file-edit',
+				path,
+				startLine: getNumber(event, fileEdit!.startLine),
+				endLine: getNumber(event, fileEdit!.endLine)
+			});
+		}
+	} else if (matches(event, fileRead)) {
+		const path = getString(event, fileRead!.path);
+		if (path) events.push({ kind: 'file-read', path });
+	} else if (matches(event, toolCall)) {
+		const tool = getString(event, toolCall!.tool);
+		if (tool) events.push({ kind: 'tool-call', tool, summary: getString(event, toolCall!.summary) });
+	}
+
+	if (matches(event, tokenUsage)) {
+		events.push({
+			kind: 'token-usage',
+			inputTokens: getNumber(event, tokenUsage!.inputTokens) ?? 0,
+			outputTokens: getNumber(event, tokenUsage!.outputTokens) ?? 0
+		});
+	}
+
+	return events;
+}
+
+export class CommandProvider implements AgentProvider {
+	private activeSessions = new Map<string, { process: ChildProcess; controller: AbortController }>();
+	private sessionHistory = new Map<string, SessionHistory>();
+
+	constructor(readonly name: string, private config: CommandProviderConfig) {}
+
+	async checkAvailability(): Promise<ProviderAvailability> {
+		if (isCommandOnPath(this.config.command, this.config.cwd)) {
+			return { available: true };
+		}
+		return { available: false, reason: `${this.config.command} not found. Check "command" in svelte-grab.config.json.` };
+	}
+
+	/**
+	 * Build the argument list for a run, filling in template placeholders.
+	 */
+	private buildArgs(prompt: string, sessionId: string, history: SessionHistory): string[] {
+		const { args = [], promptInput = 'argument', resumeArgs = [] } = this.config;
+		const values: Record<string, string> = { prompt, sessionId, resumeToken: history.resumeToken ?? '' };
+		// One pass with a replacer: placeholders inside the prompt stay as typed,
+		// and `$$`, `$&` in it are not read as replacement patterns
+		const fill = (arg: string) => arg.replace(/\{(prompt|sessionId|resumeToken)\}/g, (_, key: string) => values[key]);
+
+		const built = args.map(fill);
+		if (history.resumeToken) {
+			built.push(...resumeArgs.map(fill));
+		}
+		if (promptInput === 'argument' && !args.some(a => a.includes('{prompt}'))) {
+			built.push(prompt);
+		}
+		return built;
+	}
+
+	async handleRequest(
+		sessionId: string,
+		context: { content: string[]; prompt: string; selectedCount: number },
+		callbacks: AgentProviderCallbacks
+	): Promise<void> {
+		try {
+			const controller = new AbortController();
+			const { command, promptInput = 'argument', output = 'text', events: mapping = {} } = this.config;
+
+			callbacks.onStatus(`Starting ${this.name}...`);
+
+			// Build the prompt with context
+			const contextBlock = context.content.length > 0
+				? `\n\nHere is the Svelte component context from the browser:\n\n${context.content.join('\n\n')}\n\n`
+				: '';
+
+			const fullPrompt = `${contextBlock}${context.prompt}`;
+
+			// Save prompt to session history
+			if (!this.sessionHistory.has(sessionId)) {
+				this.sessionHistory.set(sessionId, { prompts: [], results: [] });
+			}
+			const history = this.sessionHistory.get(sessionId)!;
+			history.prompts.push(fullPrompt);
+
+			const child = spawn(command, this.buildArgs(fullPrompt, sessionId, history), {
+				stdio: [promptInput === 'stdin' ? 'pipe' : 'ignore', 'pipe', 'pipe'],
+				signal: controller.signal,
+				cwd: this.config.cwd,
+				env: { ...process.env, ...this.config.env }
+			});
+
+			this.activeSessions.set(sessionId, { process: child, controller });
+
+			if (promptInput === 'stdin') {
+				child.stdin!.on('error', () => {
+					// Agent exited before reading its input; reported on close
+				});
+				child.stdin!.end(fullPrompt);
+			}
+
+			callbacks.onStatus('Processing...');
+
+			let outputBuffer = '';
+			let lineBuffer = '';
+			let lastResult = '';
+			let reportedError = false;
+			let spawnFailed = false;
+
+			const handleLine = (line: string) => {
+				if (output === 'text') {
+					callbacks.onStatus(line);
+					return;
+				}
+
+				let event: unknown;
+				try {
+					event = JSON.parse(line);
+				} catch {
+					// Not valid JSON; treat as plain status text
+					callbacks.onStatus(line);
+					return;
+				}
+
+				const resumeToken = getString(event, mapping.resumeToken);
+				if (resumeToken) history.resumeToken = resumeToken;
+
+				if (matches(event, mapping.status)) {
+					const text = getString(event, mapping.status!.text);
+					if (text) callbacks.onStatus(text.slice(0, 200));
+				}
+				if (matches(event, mapping.result)) {
+					lastResult = getString(event, mapping.result!.text) ?? lastResult;
+				}
+				if (matches(event, mapping.error)) {
+					reportedError = true;
+					callbacks.onError(getString(event, mapping.error!.text) ?? `${this.name} reported an error`);
+				}
+				for (const agentEvent of toAgentEvents(event, mapping)) {
+					callbacks.onEvent?.(agentEvent);
+				}
+			};
+
+			child.stdout!.on('data', (chunk: Buffer) => {
+				const text = chunk.toString();
+				outputBuffer += text;
+				lineBuffer += text;
+
+				const lines = lineBuffer.split('\n');
+				lineBuffer = lines.pop()!; // Keep incomplete line in buffer
+				for (const line of lines) {
+					if (line.trim()) handleLine(line.trim());
+				}
+			});
+
+			let stderrOutput = '';
+			child.stderr!.on('data', (chunk: Buffer) => {
+				stderrOutput += chunk.toString();
+			});
+
+			await new Promise<void>((resolve, reject) => {
+				child.on('close', (code) => {
+					this.activeSessions.delete(sessionId);
+
+					// Spawn failures are reported by the 'error' handler
+					if (controller.signal.aborted || spawnFailed) {
+						resolve();
+						return;
+					}
+
+					if (lineBuffer.trim()) handleLine(lineBuffer.trim());
+					if (reportedError) {
+						resolve();
+						return;
+					}
+
+					if (code === 0) {
+						const result = (output === 'text' ? outputBuffer.trim() : lastResult) || `${this.name} completed`;
+						history.results.push(result);
+						callbacks.onDone(result);
+						resolve();
+					} else {
+						const errMsg = stderrOutput.trim() || `${this.name} exited with code ${code}`;
+						callbacks.onError(errMsg);
+						reject(new Error(errMsg));
+					}
+				});
+
+				child.on('error', (err: NodeJS.ErrnoException) => {
+					this.activeSessions.delete(sessionId);
+					spawnFailed = true;
+
+					if (err.code === 'ENOENT') {
+						callbacks.onError(`${command} not found. Check "command" in svelte-grab.config.json.`);
+					} else if (err.name === 'AbortError') {
+						resolve();
+						return;
+					} else {
+						callbacks.onError(err.message || `Unknown error from ${this.name}`);
+					}
+					reject(err);
+				});
+			});
+		} catch (err: any) {
+			this.activeSessions.delete(sessionId);
+
+			if (err?.name === 'AbortError') return;
+
+			// Error already reported via callbacks in most cases
+		}
+	}
+
+	abort(sessionId: string): void {
+		const session = this.activeSessions.get(sessionId);
+		if (session) {
+			session.controller.abort();
+			session.process.kill('SIGTERM');
+			this.activeSessions.delete(sessionId);
+		}
+	}
+
+	async undo(sessionId: string, callbacks: AgentProviderCallbacks): Promise<void> {
+		const history = this.sessionHistory.get(sessionId);
+		const contextHint = history && history.prompts.length > 0
+			? `\n\nPrevious prompt was: ${history.prompts[history.prompts.length - 1]}`
+			: '';
+
+		await this.handleRequest(sessionId, {
+			content: [],
+			prompt: `Undo the last change you made.${contextHint}`,
+			selectedCount: 0
+		}, callbacks);
+	}
+
+	async redo(sessionId: string, callbacks: AgentProviderCallbacks): Promise<void> {
+		await this.handleRequest(sessionId, {
+			content: [],
+			prompt: 'Redo the change you just undid.',
+			selectedCount: 0
+		}, callbacks);
+	}
+
+	async resume(sessionId: string, prompt: string, callbacks: AgentProviderCallbacks): Promise<void> {
+		const history = this.sessionHistory.get(sessionId);
+		const contextBlock = history && history.results.length > 0
+			? `\n\nPrevious interaction result: ${history.results[history.results.length - 1]}`
+			: '';
+
+		await this.handleRequest(sessionId, {
+			content: [],
+			prompt: `${prompt}${contextBlock}`,
+			selectedCount: 0
+		}, callbacks);
+	}
+
+	exportSession(sessionId: string): ProviderSessionState | undefined {
+		const history = this.sessionHistory.get(sessionId);
+		return history && { prompts: history.prompts, results: history.results, resumeToken: history.resumeToken };
+	}
+
+	importSession(sessionId: string, state: ProviderSessionState): void {
+		if (this.sessionHistory.has(sessionId)) return;
+		this.sessionHistory.set(sessionId, { prompts: [...state.prompts], results: [...state.results], resumeToken: state.resumeToken });
+	}
+}
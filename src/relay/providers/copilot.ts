@@ -1,5 +1,6 @@
 import { spawn, type ChildProcess } from 'node:child_process';
-import type { AgentProvider, AgentProviderCallbacks } from './base.js';
+import type { AgentProvider, AgentProviderCallbacks, ProviderAvailability, ProviderSessionState } from './base.js';
+import { isCommandAvailable } from '../../utils/command.js';
 
 /**
  * GitHub Copilot agent provider using the copilot CLI.
@@ -17,6 +18,16 @@ export class CopilotProvider implements AgentProvider {
 	private activeSessions = new Map<string, { process: ChildProcess; controller: AbortController }>();
 	private sessionHistory = new Map<string, SessionHistory>();
 
+	async checkAvailability(): Promise<ProviderAvailability> {
+		if (await isCommandAvailable('copilot')) {
+			return { available: true };
+		}
+		return {
+			available: false,
+			reason: 'copilot CLI not found. Install GitHub Copilot CLI: https://docs.github.com/en/copilot/using-github-copilot/using-github-copilot-in-the-command-line'
+		};
+	}
+
 	async handleRequest(
 		sessionId: string,
 		context: { content: string[]; prompt: string; selectedCount: number },
@@ -166,4 +177,14 @@ export class CopilotProvider implements AgentProvider {
 			selectedCount: 0
 		}, callbacks);
 	}
+
+	exportSession(sessionId: string): ProviderSessionState | undefined {
+		const history = this.sessionHistory.get(sessionId);
+		return history && { prompts: history.prompts, results: history.results, resumeToken: history.sessionId };
+	}
+
+	importSession(sessionId: string, state: ProviderSessionState): void {
+		if (this.sessionHistory.has(sessionId)) return;
+		this.sessionHistory.set(sessionId, { prompts: [...state.prompts], results: [...state.results], sessionId: state.resumeToken });
+	}
 }
@@ -1,5 +1,7 @@
 import { spawn, type ChildProcess } from 'node:child_process';
-import type { AgentProvider, AgentProviderCallbacks } from './base.js';
+import type { AgentProvider, AgentProviderCallbacks, ProviderAvailability, ProviderSessionState } from './base.js';
+import type { AgentEvent } from '../protocol.js';
+import { isCommandAvailable } from '../../utils/command.js';
 
 /**
  * Cursor agent provider using the cursor-agent CLI.
@@ -12,11 +14,36 @@ interface SessionHistory {
 }
 
 interface CursorEvent {
-	type: 'system' | 'user' | 'thinking' | 'assistant' | 'result';
+	type: 'system' | 'user' | 'thinking' | 'assistant' | 'result' | 'tool_call';
+	subtype?: 'started' | 'completed';
 	content?: string;
 	success?: boolean;
 	error?: string;
 	chatId?: string;
+	/** Keyed by call kind, e.g. { readToolCall: { args: { path } } } */
+	tool_call?: Record<string, { args?: { path?: string; command?: string } }>;
+	usage?: { input_tokens?: number; output_tokens?: number };
+}
+
+/**
+ * Map a cursor-agent tool_call event to a structured agent event.
+ */
+function toAgentEvent(toolCall: NonNullable<CursorEvent['tool_call']>): AgentEvent | null {
+	const [kind, call] = Object.entries(toolCall)[0] ?? [];
+	if (!kind) return null;
+
+	const path = call?.args?.path;
+	if (kind === 'readToolCall' && path) {
+		return { kind: 'file-read', path };
+	}
+	if ((kind === 'editToolCall' || kind === 'writeToolCall') && path) {
+		return { kind: 'file-edit', path };
+	}
+	return {
+		kind: 'tool-call',
+		tool: kind.replace(/ToolCall$/, ''),
+		summary: call?.args?.command ?? path
+	};
 }
 
 export class CursorProvider implements AgentProvider {
@@ -24,6 +51,16 @@ export class CursorProvider implements AgentProvider {
 	private activeSessions = new Map<string, { process: ChildProcess; controller: AbortController }>();
 	private sessionHistory = new Map<string, SessionHistory>();
 
+	async checkAvailability(): Promise<ProviderAvailability> {
+		if (await isCommandAvailable('cursor-agent')) {
+			return { available: true };
+		}
+		return {
+			available: false,
+			reason: 'cursor-agent CLI not found. Make sure Cursor is installed and cursor-agent is in your PATH.'
+		};
+	}
+
 	async handleRequest(
 		sessionId: string,
 		context: { content: string[]; prompt: string; selectedCount: number },
@@ -98,7 +135,20 @@ export class CursorProvider implements AgentProvider {
 								callbacks.onStatus(event.content || 'Working...');
 								if (event.content) lastResult = event.content;
 								break;
+							case 'tool_call': {
+								if (event.subtype !== 'started' || !event.tool_call) break;
+								const agentEvent = toAgentEvent(event.tool_call);
+								if (agentEvent) callbacks.onEvent?.(agentEvent);
+								break;
+							}
 							case 'result':
+								if (event.usage) {
+									callbacks.onEvent?.({
+										kind: 'token-usage',
+										inputTokens: event.usage.input_tokens ?? 0,
+										outputTokens: event.usage.output_tokens ?? 0
+									});
+								}
 								if (event.success) {
 									const result = event.content || lastResult || 'Done';
 									history.results.push(result);
@@ -213,4 +263,14 @@ export class CursorProvider implements AgentProvider {
 			selectedCount: 0
 		}, callbacks);
 	}
+
+	exportSession(sessionId: string): ProviderSessionState | undefined {
+		const history = this.sessionHistory.get(sessionId);
+		return history && { prompts: history.prompts, results: history.results, resumeToken: history.chatId };
+	}
+
+	importSession(sessionId: string, state: ProviderSessionState): void {
+		if (this.sessionHistory.has(sessionId)) return;
+		this.sessionHistory.set(sessionId, { prompts: [...state.prompts], results: [...state.results], chatId: state.resumeToken });
+	}
 }
@@ -0,0 +1,56 @@
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+/** Lines of a file an edit wrote, 1-based and inclusive */
+export interface LineRange {
+	startLine: number;
+	endLine: number;
+}
+
+function lineCount(text: string): number {
+	return text === '' ? 1 : text.split('\n').length - (text.endsWith('\n') ? 1 : 0);
+}
+
+/** 1-based line of a character offset */
+function lineAt(content: string, offset: number): number {
+	return content.slice(0, offset).split('\n').length;
+}
+
+function readText(path: string): string | null {
+	try {
+		return readFileSync(resolve(path), 'utf-8');
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Lines covering every inserted text in the file as it is now, after the edit
+ * was applied. Texts that are empty (deletions) are skipped; texts found more
+ * than once (unless `all`, for replace-all edits) or not at all make the range unknown.
+ */
+export function findEditRange(path: string, inserted: string[], all = false): LineRange | undefined {
+	const texts = inserted.filter(t => t !== '');
+	if (texts.length === 0) return undefined;
+	const content = readText(path);
+	if (content === null) return undefined;
+
+	let startLine = Infinity;
+	let endLine = 0;
+	for (const text of texts) {
+		const first = content.indexOf(text);
+		if (first === -1) return undefined;
+		const last = content.lastIndexOf(text);
+		if (last !== first && !all) return undefined;
+
+		startLine = Math.min(startLine, lineAt(content, first));
+		endLine = Math.max(endLine, lineAt(content, last) + lineCount(text) - 1);
+	}
+	return { startLine, endLine };
+}
+
+/** The whole file, for files an agent created */
+export function wholeFileRange(path: string): LineRange | undefined {
+	const content = readText(path);
+	return content === null ? undefined : { startLine: 1, endLine: lineCount(content) };
+}
@@ -0,0 +1,124 @@
+/**
+ * A unit of agent work: a request, resume, retry, undo or redo for one session.
+ */
+export interface QueueJob {
+	requestId: string;
+	sessionId: string;
+	/** Agent that serves the job; concurrency is limited per agent */
+	agentId: string;
+	/** Start the job. The returned promise settles when the job has finished. */
+	start: () => Promise<void>;
+}
+
+export interface RequestQueueHooks {
+	/** The job could not start immediately; `position` is 1-based among waiting jobs */
+	onQueued?: (job: QueueJob, position: number) => void;
+	onRunning?: (job: QueueJob) => void;
+	onCancelled?: (job: QueueJob) => void;
+	/** The job's start() threw or rejected */
+	onFailed?: (job: QueueJob, error: unknown) => void;
+	/** The job has finished and its session is no longer running */
+	onSettled?: (job: QueueJob) => void;
+}
+
+/**
+ * FIFO queue for agent jobs.
+ *
+ * Jobs for the same session run one at a time, in order, and each agent runs
+ * at most `maxConcurrency(agentId)` jobs at once. Waiting jobs can be cancelled.
+ */
+export class RequestQueue {
+	private waiting: QueueJob[] = [];
+	private runningSessions = new Set<string>();
+	private runningPerAgent = new Map<string, number>();
+
+	constructor(
+		private maxConcurrency: (agentId: string) => number,
+		private hooks: RequestQueueHooks = {}
+	) {}
+
+	/**
+	 * Add a job, starting it right away when its session and agent are free.
+	 */
+	enqueue(job: QueueJob): void {
+		this.waiting.push(job);
+		this.pump();
+
+		const position = this.waiting.indexOf(job);
+		if (position !== -1) {
+			this.hooks.onQueued?.(job, position + 1);
+		}
+	}
+
+	/**
+	 * Cancel waiting jobs for a session (all of them, or only `requestId`).
+	 * Running jobs are not affected — abort those through the provider.
+	 */
+	cancel(sessionId: string, requestId?: string): QueueJob[] {
+		const cancelled = this.waiting.filter(
+			j => j.sessionId === sessionId && (requestId === undefined || j.requestId === requestId)
+		);
+		if (cancelled.length === 0) return [];
+
+		this.waiting = this.waiting.filter(j => !cancelled.includes(j));
+		for (const job of cancelled) {
+			this.hooks.onCancelled?.(job);
+		}
+		return cancelled;
+	}
+
+	isRunning(sessionId: string): boolean {
+		return this.runningSessions.has(sessionId);
+	}
+
+	/** Whether the session has a job running or waiting */
+	isBusy(sessionId: string): boolean {
+		return this.isRunning(sessionId) || this.waiting.some(j => j.sessionId === sessionId);
+	}
+
+	/** Number of jobs waiting to start */
+	get size(): number {
+		return this.waiting.length;
+	}
+
+	private pump(): void {
+		// Sessions with an earlier waiting job; later jobs for them must not overtake it
+		const blocked = new Set<string>();
+
+		for (const job of [...this.waiting]) {
+			const busy = this.runningSessions.has(job.sessionId)
+				|| blocked.has(job.sessionId)
+				|| (this.runningPerAgent.get(job.agentId) ?? 0) >= this.maxConcurrency(job.agentId);
+
+			if (busy) {
+				blocked.add(job.sessionId);
+				continue;
+			}
+
+			this.waiting.splice(this.waiting.indexOf(job), 1);
+			this.run(job);
+		}
+	}
+
+	private run(job: QueueJob): void {
+		this.runningSessions.add(job.sessionId);
+		this.runningPerAgent.set(job.agentId, (this.runningPerAgent.get(job.agentId) ?? 0) + 1);
+		this.hooks.onRunning?.(job);
+
+		let started: Promise<void>;
+		try {
+			started = job.start();
+		} catch (err) {
+			started = Promise.reject(err);
+		}
+
+		started
+			.catch(err => this.hooks.onFailed?.(job, err))
+			.finally(() => {
+				this.runningSessions.delete(job.sessionId);
+				this.runningPerAgent.set(job.agentId, (this.runningPerAgent.get(job.agentId) ?? 1) - 1);
+				this.pump();
+				this.hooks.onSettled?.(job);
+			});
+	}
+}
@@ -1,30 +1,76 @@
-import type { AgentProvider } from './providers/base.js';
+import { randomUUID } from 'node:crypto';
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { Http2SecureServer } from 'node:http2';
+import type { Duplex } from 'node:stream';
+import type { AgentProvider, AgentProviderCallbacks } from './providers/base.js';
 import type {
-	ClientMessage,
+	HandlerMessage,
+	InvokeHandlerMessage,
 	AgentStatusMessage,
+	AgentEventMessage,
 	AgentDoneMessage,
+	AgentQueueMessage,
 	AgentErrorMessage,
+	AgentSessionMessage,
+	AgentSubscribedMessage,
 	HandlersMessage,
-	HealthResponseMessage
+	HealthResponseMessage,
+	RelayErrorCode,
+	ChangedFile,
+	RelayAgentContext,
+	RelayQueueState
 } from './protocol.js';
+import { RELAY_PROTOCOL_VERSION, isCompatibleProtocolVersion, parseRelayMessage } from './protocol.js';
+import { CheckpointConflictError, CheckpointStore, type Checkpoint } from './checkpoints.js';
+import { JsonFileSessionStore, defaultSessionsPath, type SessionStore } from './sessions.js';
+import { RequestQueue, type QueueJob } from './queue.js';
 import { findAvailablePort } from '../utils/port.js';
+import { isOriginAllowed, isValidToken } from '../utils/auth.js';
+import type { ServerIdentity } from '../lib/core/discovery.js';
 
 export interface RelayServerOptions {
 	port?: number;
 	providers?: AgentProvider[];
+	/** Project directory agents work in. Default: process.cwd() */
+	projectRoot?: string;
+	/**
+	 * Snapshot the files each agent run changes so undo/redo restore exact contents.
+	 * Requires a git repository; otherwise providers' prompt-based undo/redo is used. Default: true
+	 */
+	checkpoints?: boolean;
+	/** Where sessions are persisted for retry/resume. Default: JSON file at `.svelte-grab/sessions.json` */
+	sessionStore?: SessionStore;
+	/** Idle time (ms) after which sessions in the default store expire. Default: 7 days */
+	sessionTtl?: number;
+	/**
+	 * Requests each agent may run at once, as one number or per agent name.
+	 * Requests beyond the limit wait in a queue. Default: 1
+	 */
+	maxConcurrency?: number | Record<string, number>;
+	/**
+	 * Shared secret clients must pass as the `token` query parameter when connecting.
+	 * Generated by `svelte-grab init` / `configure`. When unset, any client that passes the origin check may connect.
+	 */
+	authToken?: string;
+	/** Browser origins allowed to connect (`*` wildcards allowed). Default: localhost and 127.0.0.1 on any port */
+	allowedOrigins?: string[];
+	/** Messages kept per session for replay to late subscribers. Default: 200 */
+	replayBufferSize?: number;
+	/**
+	 * Attach to an existing HTTP server (e.g. Vite's dev server) instead of listening on `port`.
+	 * Only WebSocket upgrades on `path` are handled; the server's other upgrades are left alone.
+	 */
+	server?: Server | Http2SecureServer;
+	/** Upgrade path when attached to `server`. Default: '/' */
+	path?: string;
 }
 
 /**
  * Create and start a WebSocket relay server.
  * Bridges browser clients to agent providers.
  */
-interface SessionEntry {
-	agentId: string;
-	lastContext: { content: string[]; prompt: string; selectedCount: number };
-}
-
 export async function createRelayServer(options: RelayServerOptions = {}): Promise<{ close: () => void }> {
-	const { port: preferredPort = 4722, providers = [] } = options;
+	const { port: preferredPort = 4722, providers = [], projectRoot = process.cwd() } = options;
 
 	// Lazy-load ws
 	let WebSocketServer: any;
@@ -40,45 +86,432 @@ export async function createRelayServer(options: RelayServerOptions = {}): Promi
 		providerMap.set(p.name, p);
 	}
 
-	// Session store for retry support
-	const sessionStore = new Map<string, SessionEntry>();
+	// Session store for retry/resume support, persisted across relay restarts
+	const sessionStore = options.sessionStore
+		?? new JsonFileSessionStore(defaultSessionsPath(projectRoot), { ttl: options.sessionTtl });
 
-	// Find available port (auto-increment if preferred port is in use)
-	let port: number;
-	try {
-		port = await findAvailablePort(preferredPort);
-	} catch {
-		throw new Error(`Could not find available port starting from ${preferredPort}`);
+	// Remote handlers registered via connectToRelay(), keyed by agent ID
+	const remoteHandlers = new Map<string, any>();
+
+	// Browser sockets, used to broadcast handler changes
+	const clients = new Set<any>();
+
+	// Browser sockets subscribed to each session (the requester, plus agent-subscribe)
+	const sessionSubscribers = new Map<string, Set<any>>();
+
+	// Recent messages of each session, replayed to late subscribers
+	const sessionLogs = new Map<string, AgentSessionMessage[]>();
+	const { replayBufferSize = 200 } = options;
+	// Stamped on every published message, so resubscribing clients get only what they missed
+	let nextSeq = 1;
+
+	// Sessions currently awaiting a reply from a remote handler, mapped to its agent ID
+	const pendingRemote = new Map<string, string>();
+
+	// File checkpoints for undo/redo, and the snapshot taken before each in-flight run
+	const checkpoints = options.checkpoints === false ? null : new CheckpointStore(projectRoot);
+	const runSnapshots = new Map<string, string>();
+	// Paths each in-flight run reported editing (file-edit events), to attribute only those to it
+	const runEdits = new Map<string, Set<string>>();
+
+	async function useCheckpoints(): Promise<boolean> {
+		return !!checkpoints && await checkpoints.isAvailable();
+	}
+
+	/**
+	 * Snapshot project files before an agent run so its changes can be undone.
+	 */
+	async function beginRun(sessionId: string): Promise<void> {
+		if (!await useCheckpoints()) return;
+		try {
+			runSnapshots.set(sessionId, await checkpoints!.snapshot(sessionId));
+			runEdits.set(sessionId, new Set());
+		} catch (err: any) {
+			console.warn(`[svelte-grab relay] Could not snapshot files: ${err?.message ?? err}`);
+		}
+	}
+
+	/**
+	 * Record the files an agent run changed. Returns them, or undefined when not tracked.
+	 */
+	async function finishRun(sessionId: string): Promise<ChangedFile[] | undefined> {
+		const before = runSnapshots.get(sessionId);
+		if (!before) return undefined;
+		const edited = runEdits.get(sessionId);
+		runSnapshots.delete(sessionId);
+		runEdits.delete(sessionId);
+		try {
+			const checkpoint = await checkpoints!.record(sessionId, before, edited && [...edited]);
+			return checkpoint?.files ?? [];
+		} catch (err: any) {
+			console.warn(`[svelte-grab relay] Could not record checkpoint: ${err?.message ?? err}`);
+			return undefined;
+		}
+	}
+
+	/**
+	 * Save a session's agent and last request. Provider state is kept unless the agent changed.
+	 */
+	function saveSession(sessionId: string, agentId: string, lastContext: RelayAgentContext): void {
+		const existing = sessionStore.get(sessionId);
+		const now = Date.now();
+		sessionStore.set({
+			sessionId,
+			agentId,
+			lastContext,
+			provider: existing?.agentId === agentId ? existing.provider : undefined,
+			createdAt: existing?.createdAt ?? now,
+			updatedAt: now
+		});
+	}
+
+	/**
+	 * Persist a local provider's history and resume token for the session.
+	 */
+	function saveProviderState(sessionId: string): void {
+		const record = sessionStore.get(sessionId);
+		const state = record && providerMap.get(record.agentId)?.exportSession?.(sessionId);
+		if (!record || !state) return;
+		sessionStore.set({ ...record, provider: state, updatedAt: Date.now() });
+	}
+
+	/**
+	 * Look up a local provider, handing it any persisted state for the session
+	 * (e.g. a Cursor chatId saved before the relay restarted).
+	 */
+	function getLocalProvider(agentId: string | undefined, sessionId: string): AgentProvider | undefined {
+		const provider = agentId ? providerMap.get(agentId) : undefined;
+		const state = sessionStore.get(sessionId)?.provider;
+		if (provider && state) {
+			provider.importSession?.(sessionId, state);
+		}
+		return provider;
+	}
+
+	// Resolves the queued job of a session waiting on a remote handler's done/error reply
+	const remoteCompletions = new Map<string, () => void>();
+
+	function settleRemote(sessionId: string): void {
+		remoteCompletions.get(sessionId)?.();
+		remoteCompletions.delete(sessionId);
+	}
+
+	function sendQueueState(job: QueueJob, state: RelayQueueState, position?: number): void {
+		const queueMsg: AgentQueueMessage = {
+			type: 'agent-queue',
+			sessionId: job.sessionId,
+			requestId: job.requestId,
+			state,
+			position
+		};
+		publish(queueMsg);
+	}
+
+	// Serializes requests per session and limits concurrent requests per agent
+	const queue = new RequestQueue(
+		(agentId) => {
+			const { maxConcurrency = 1 } = options;
+			return typeof maxConcurrency === 'number' ? maxConcurrency : maxConcurrency[agentId] ?? 1;
+		},
+		{
+			onQueued: (job, position) => sendQueueState(job, 'queued', position),
+			onRunning: (job) => sendQueueState(job, 'running'),
+			onCancelled: (job) => sendQueueState(job, 'cancelled'),
+			onFailed: (job, err) => {
+				void finishRun(job.sessionId);
+				publishError(job.sessionId, 'agent-failed', `Provider error: ${err instanceof Error ? err.message : String(err)}`);
+			},
+			onSettled: (job) => dropIdleSession(job.sessionId)
+		}
+	);
+
+	function describeFiles(files: ChangedFile[]): string {
+		return files.map(f => f.path).join(', ');
+	}
+
+	/**
+	 * Undo or redo the session's last checkpoint and report the restored files.
+	 */
+	async function restoreCheckpoint(sessionId: string, direction: 'undo' | 'redo'): Promise<void> {
+		let checkpoint: Checkpoint | null;
+		try {
+			checkpoint = direction === 'undo'
+				? await checkpoints!.undo(sessionId)
+				: await checkpoints!.redo(sessionId);
+		} catch (err: any) {
+			const code = err instanceof CheckpointConflictError ? 'checkpoint-conflict' : 'agent-failed';
+			publishError(sessionId, code, `Could not ${direction}: ${err?.message ?? err}`);
+			return;
+		}
+
+		if (!checkpoint) {
+			publishError(sessionId, 'no-checkpoint', `Nothing to ${direction} for this session`);
+			return;
+		}
+
+		const count = checkpoint.files.length;
+		const doneMsg: AgentDoneMessage = {
+			type: 'agent-done',
+			sessionId,
+			result: `${direction === 'undo' ? 'Undid' : 'Redid'} changes to ${count} file${count === 1 ? '' : 's'}: ${describeFiles(checkpoint.files)}`,
+			files: checkpoint.files
+		};
+		publish(doneMsg);
+	}
+
+	function send(socket: any, data: unknown): void {
+		if (socket.readyState === 1) socket.send(JSON.stringify(data));
+	}
+
+	function sendError(socket: any, sessionId: string, code: RelayErrorCode, error: string): void {
+		const errMsg: AgentErrorMessage = { type: 'agent-error', sessionId, error, code };
+		send(socket, errMsg);
+	}
+
+	function subscribe(sessionId: string, socket: any): void {
+		if (!sessionSubscribers.has(sessionId)) {
+			sessionSubscribers.set(sessionId, new Set());
+		}
+		sessionSubscribers.get(sessionId)!.add(socket);
+	}
+
+	/**
+	 * Deliver a session message to every subscriber and buffer it for late joiners.
+	 */
+	function publish(msg: AgentSessionMessage): void {
+		msg = { ...msg, seq: nextSeq++ };
+		if (msg.type === 'agent-event' && msg.event.kind === 'file-edit') {
+			runEdits.get(msg.sessionId)?.add(msg.event.path);
+		}
+		if (!sessionLogs.has(msg.sessionId)) {
+			sessionLogs.set(msg.sessionId, []);
+		}
+		const log = sessionLogs.get(msg.sessionId)!;
+		log.push(msg);
+		if (log.length > replayBufferSize) {
+			log.splice(0, log.length - replayBufferSize);
+		}
+
+		for (const socket of sessionSubscribers.get(msg.sessionId) ?? []) {
+			send(socket, msg);
+		}
+	}
+
+	/**
+	 * Forget a session's log and subscribers once nothing runs or waits for it and nobody listens.
+	 */
+	function dropIdleSession(sessionId: string): void {
+		if (queue.isBusy(sessionId) || (sessionSubscribers.get(sessionId)?.size ?? 0) > 0) return;
+		sessionLogs.delete(sessionId);
+		sessionSubscribers.delete(sessionId);
+	}
+
+	function publishError(sessionId: string, code: RelayErrorCode, error: string): void {
+		publish({ type: 'agent-error', sessionId, error, code });
+	}
+
+	function versionMismatchError(peer: string, version: number | undefined): string {
+		return `Relay speaks protocol v${RELAY_PROTOCOL_VERSION} but ${peer} speaks v${version ?? 0}. Update svelte-grab so both sides match.`;
+	}
+
+	function availableAgents(): string[] {
+		return [...new Set([...providerMap.keys(), ...remoteHandlers.keys()])];
+	}
+
+	function broadcastHandlers(): void {
+		const handlersMsg: HandlersMessage = {
+			type: 'handlers',
+			agents: availableAgents()
+		};
+		for (const client of clients) {
+			send(client, handlersMsg);
+		}
+	}
+
+	/**
+	 * Forward a provider call to a remote handler.
+	 * Returns false when no remote handler is registered for the agent.
+	 */
+	function invokeRemote(
+		agentId: string,
+		method: InvokeHandlerMessage['method'],
+		sessionId: string,
+		payload?: InvokeHandlerMessage['payload']
+	): boolean {
+		const handler = remoteHandlers.get(agentId);
+		if (!handler) return false;
+
+		const msg: InvokeHandlerMessage = { type: 'invoke-handler', method, sessionId, payload };
+		send(handler, msg);
+
+		if (method !== 'abort') {
+			pendingRemote.set(sessionId, agentId);
+		}
+		return true;
+	}
+
+	/**
+	 * Route a status/done/error message from a remote handler to the session's subscribers.
+	 */
+	async function routeHandlerReply(msg: Exclude<HandlerMessage, { agentId: string }>): Promise<void> {
+		let files: ChangedFile[] | undefined;
+		if (msg.type === 'agent-done' || msg.type === 'agent-error') {
+			pendingRemote.delete(msg.sessionId);
+			files = await finishRun(msg.sessionId);
+		}
+		if (msg.type === 'agent-error') {
+			publishError(msg.sessionId, msg.code ?? 'agent-failed', msg.error);
+		} else if (msg.type === 'agent-done') {
+			publish({ ...msg, files });
+		} else {
+			publish(msg);
+		}
+		if (msg.type === 'agent-done' || msg.type === 'agent-error') {
+			settleRemote(msg.sessionId);
+		}
+	}
+
+	/**
+	 * Remove remote handlers and fail any sessions still waiting on them.
+	 */
+	function removeHandlers(agentIds: string[]): void {
+		if (agentIds.length === 0) return;
+
+		for (const agentId of agentIds) {
+			remoteHandlers.delete(agentId);
+		}
+
+		for (const [sessionId, agentId] of pendingRemote) {
+			if (!agentIds.includes(agentId)) continue;
+			pendingRemote.delete(sessionId);
+			publishError(sessionId, 'handler-disconnected', `Remote handler "${agentId}" disconnected`);
+			void finishRun(sessionId).then(() => settleRemote(sessionId));
+		}
+
+		console.log(`[svelte-grab relay] Remote handler removed: ${agentIds.join(', ')}`);
+		broadcastHandlers();
 	}
 
-	const wss = new WebSocketServer({ port });
+	/**
+	 * Drop every registration owned by a handler socket.
+	 */
+	function dropHandler(socket: any): void {
+		const owned = [...remoteHandlers].filter(([, handler]) => handler === socket).map(([agentId]) => agentId);
+		removeHandlers(owned);
+	}
+
+	// Reject pages from other origins, and clients without the shared secret, at handshake time
+	const verifyClient = (info: { origin?: string; req: any }, done: (ok: boolean, code?: number, message?: string) => void) => {
+		if (!isOriginAllowed(info.origin, options.allowedOrigins)) {
+			console.warn(`[svelte-grab relay] Rejected connection from origin ${info.origin}`);
+			done(false, 403, 'Origin not allowed');
+			return;
+		}
+		if (options.authToken) {
+			const token = new URL(info.req.url ?? '/', 'ws://localhost').searchParams.get('token');
+			if (!isValidToken(token, options.authToken)) {
+				console.warn('[svelte-grab relay] Rejected connection with missing or invalid token');
+				done(false, 401, 'Invalid token');
+				return;
+			}
+		}
+		done(true);
+	};
+
+	let wss: any;
+	let stopListening: () => void;
+
+	if (options.server) {
+		// Share the host server: take only upgrades on our path (the host may serve HMR on its own)
+		const { server: hostServer, path = '/' } = options;
+		wss = new WebSocketServer({ noServer: true, verifyClient });
+		const onUpgrade = (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+			if (new URL(req.url ?? '/', 'http://localhost').pathname !== path) return;
+			wss.handleUpgrade(req, socket, head, (ws: any) => wss.emit('connection', ws, req));
+		};
+		hostServer.on('upgrade', onUpgrade);
+		stopListening = () => hostServer.off('upgrade', onUpgrade);
+
+		console.log(`[svelte-grab relay] Attached to the dev server on ${path}`);
+	} else {
+		// Find available port (auto-increment if preferred port is in use)
+		let port: number;
+		try {
+			port = await findAvailablePort(preferredPort);
+		} catch {
+			throw new Error(`Could not find available port starting from ${preferredPort}`);
+		}
+
+		// Plain HTTP requests get /health, so browsers can tell this relay apart when it moved ports
+		const httpServer = createServer((req, res) => {
+			if (!isOriginAllowed(req.headers.origin, options.allowedOrigins)) {
+				res.writeHead(403);
+				res.end();
+				return;
+			}
+			if (req.headers.origin) {
+				res.setHeader('Access-Control-Allow-Origin', req.headers.origin);
+				res.setHeader('Vary', 'Origin');
+			}
+
+			if (req.method === 'GET' && req.url === '/health') {
+				const identity: ServerIdentity = { service: 'svelte-grab-relay', projectRoot, port };
+				res.writeHead(200, { 'Content-Type': 'application/json' });
+				res.end(JSON.stringify({ status: 'ok', ...identity, clients: clients.size }));
+				return;
+			}
+
+			res.writeHead(404);
+			res.end();
+		});
+
+		wss = new WebSocketServer({ server: httpServer, verifyClient });
 
-	if (port !== preferredPort) {
-		console.log(`[svelte-grab relay] Port ${preferredPort} was in use, using ${port} instead`);
+		await new Promise<void>((resolve, reject) => {
+			httpServer.once('error', reject);
+			httpServer.listen(port, () => resolve());
+		});
+		stopListening = () => httpServer.close();
+
+		if (port !== preferredPort) {
+			console.log(`[svelte-grab relay] Port ${preferredPort} was in use, using ${port} instead`);
+		}
+		console.log(`[svelte-grab relay] Listening on ws://localhost:${port}`);
 	}
-	console.log(`[svelte-grab relay] Listening on ws://localhost:${port}`);
+
 	console.log(`[svelte-grab relay] Registered agents: ${providers.map(p => p.name).join(', ') || 'none'}`);
+	if (!options.authToken) {
+		console.warn('[svelte-grab relay] No auth token set — run `svelte-grab configure` to generate one.');
+	}
 
 	wss.on('connection', (ws: any) => {
 		console.log('[svelte-grab relay] Client connected');
+		clients.add(ws);
+
+		// Set when the client announces a protocol version we don't speak
+		let incompatibleVersion: number | undefined | null = null;
 
 		// Send available handlers
 		const handlersMsg: HandlersMessage = {
 			type: 'handlers',
-			agents: [...providerMap.keys()]
+			agents: availableAgents()
 		};
 		ws.send(JSON.stringify(handlersMsg));
 
 		ws.on('message', async (data: any) => {
-			let msg: ClientMessage;
-			try {
-				msg = JSON.parse(data.toString());
-			} catch {
+			const parsed = parseRelayMessage(data.toString());
+			if (!parsed.ok) {
+				console.warn(`[svelte-grab relay] Rejected message (${parsed.code}): ${parsed.error}`);
+				sendError(ws, parsed.sessionId, parsed.code, parsed.error);
 				return;
 			}
+			const msg = parsed.message;
 
-			// Helper to create callbacks for a session
-			function createCallbacks(sessionId: string) {
+			/**
+			 * Helper to create callbacks for a session.
+			 * Done/error reports are asynchronous (they record checkpoints); they are pushed to `reports`.
+			 */
+			function createCallbacks(sessionId: string, reports: Promise<void>[] = []): AgentProviderCallbacks {
 				return {
 					onStatus: (message: string) => {
 						const statusMsg: AgentStatusMessage = {
@@ -86,57 +519,190 @@ export async function createRelayServer(options: RelayServerOptions = {}): Promi
 							sessionId,
 							message
 						};
-						if (ws.readyState === 1) ws.send(JSON.stringify(statusMsg));
+						publish(statusMsg);
 					},
-					onDone: (result: string) => {
-						const doneMsg: AgentDoneMessage = {
-							type: 'agent-done',
+					onEvent: (event) => {
+						const eventMsg: AgentEventMessage = {
+							type: 'agent-event',
 							sessionId,
-							result
+							event
 						};
-						if (ws.readyState === 1) ws.send(JSON.stringify(doneMsg));
+						publish(eventMsg);
+					},
+					onDone: (result: string) => {
+						saveProviderState(sessionId);
+						reports.push(finishRun(sessionId).then((files) => {
+							const doneMsg: AgentDoneMessage = {
+								type: 'agent-done',
+								sessionId,
+								result,
+								files
+							};
+							publish(doneMsg);
+						}));
 					},
 					onError: (error: string) => {
-						const errMsg: AgentErrorMessage = {
-							type: 'agent-error',
-							sessionId,
-							error
-						};
-						if (ws.readyState === 1) ws.send(JSON.stringify(errMsg));
+						saveProviderState(sessionId);
+						reports.push(finishRun(sessionId).then(() => {
+							publishError(sessionId, 'agent-failed', error);
+						}));
 					}
 				};
 			}
 
+			/**
+			 * Queue a local provider call. The job finishes once the call returns
+			 * and its done/error report has been sent.
+			 * @param context - A new request's context, saved for retry once the job starts
+			 */
+			function enqueueLocal(
+				requestId: string | undefined,
+				sessionId: string,
+				provider: AgentProvider,
+				call: (callbacks: AgentProviderCallbacks) => Promise<void>,
+				context?: RelayAgentContext
+			): void {
+				queue.enqueue({
+					requestId: requestId ?? randomUUID(),
+					sessionId,
+					agentId: provider.name,
+					start: async () => {
+						const reports: Promise<void>[] = [];
+						if (context) saveSession(sessionId, provider.name, context);
+						await beginRun(sessionId);
+						try {
+							await call(createCallbacks(sessionId, reports));
+						} finally {
+							await Promise.all(reports);
+						}
+					}
+				});
+			}
+
+			/**
+			 * Queue a call to a remote handler. The job finishes when the handler
+			 * replies with done/error, disconnects, or the session is aborted.
+			 * @param context - A new request's context, saved for retry once the job starts
+			 */
+			function enqueueRemote(
+				requestId: string | undefined,
+				sessionId: string,
+				agentId: string,
+				method: InvokeHandlerMessage['method'],
+				payload?: InvokeHandlerMessage['payload'],
+				context?: RelayAgentContext
+			): void {
+				queue.enqueue({
+					requestId: requestId ?? randomUUID(),
+					sessionId,
+					agentId,
+					start: async () => {
+						if (context) saveSession(sessionId, agentId, context);
+						await beginRun(sessionId);
+						await new Promise<void>((resolve) => {
+							if (invokeRemote(agentId, method, sessionId, payload)) {
+								remoteCompletions.set(sessionId, resolve);
+								return;
+							}
+							publishError(sessionId, 'unknown-agent', `Agent "${agentId}" is no longer available`);
+							void finishRun(sessionId).then(() => resolve());
+						});
+					}
+				});
+			}
+
+			// Agent ID for follow-up messages: the session's agent, else the first available one
+			function resolveAgentId(sessionId: string): string | undefined {
+				return sessionStore.get(sessionId)?.agentId ?? availableAgents()[0];
+			}
+
+			// Once a client has announced an incompatible version, refuse everything but health
+			if (incompatibleVersion !== null && msg.type !== 'health') {
+				sendError(
+					ws,
+					'sessionId' in msg ? msg.sessionId : '',
+					'unsupported-version',
+					versionMismatchError('this client', incompatibleVersion)
+				);
+				return;
+			}
+
 			switch (msg.type) {
+				case 'register-handler': {
+					if (!isCompatibleProtocolVersion(msg.protocolVersion)) {
+						const error = versionMismatchError(`handler "${msg.agentId}"`, msg.protocolVersion);
+						console.warn(`[svelte-grab relay] ${error}`);
+						sendError(ws, '', 'unsupported-version', error);
+						break;
+					}
+					if (providerMap.has(msg.agentId)) {
+						console.warn(`[svelte-grab relay] Ignoring remote handler "${msg.agentId}": a local provider with that name is registered`);
+						break;
+					}
+					if (remoteHandlers.has(msg.agentId) && remoteHandlers.get(msg.agentId) !== ws) {
+						removeHandlers([msg.agentId]);
+					}
+					remoteHandlers.set(msg.agentId, ws);
+					clients.delete(ws);
+					console.log(`[svelte-grab relay] Remote handler registered: ${msg.agentId}`);
+					broadcastHandlers();
+					break;
+				}
+
+				case 'unregister-handler': {
+					if (remoteHandlers.get(msg.agentId) === ws) {
+						removeHandlers([msg.agentId]);
+					}
+					break;
+				}
+
+				case 'agent-status':
+				case 'agent-event':
+				case 'agent-done':
+				case 'agent-error': {
+					// Only registered handler sockets may report on a session
+					if ([...remoteHandlers.values()].includes(ws)) {
+						await routeHandlerReply(msg);
+					}
+					break;
+				}
+
 				case 'health': {
+					if (isCompatibleProtocolVersion(msg.protocolVersion)) {
+						incompatibleVersion = null;
+					} else {
+						incompatibleVersion = msg.protocolVersion;
+						const error = versionMismatchError('this client', msg.protocolVersion);
+						console.warn(`[svelte-grab relay] ${error}`);
+						sendError(ws, '', 'unsupported-version', error);
+					}
+
 					const resp: HealthResponseMessage = {
 						type: 'health',
 						status: 'ok',
-						agents: [...providerMap.keys()]
+						agents: availableAgents(),
+						protocolVersion: RELAY_PROTOCOL_VERSION
 					};
 					ws.send(JSON.stringify(resp));
 					break;
 				}
 
 				case 'agent-request': {
-					const provider = providerMap.get(msg.agentId);
-					if (!provider) {
-						const errMsg: AgentErrorMessage = {
-							type: 'agent-error',
-							sessionId: msg.sessionId,
-							error: `Unknown agent: ${msg.agentId}. Available: ${[...providerMap.keys()].join(', ')}`
-						};
-						ws.send(JSON.stringify(errMsg));
+					subscribe(msg.sessionId, ws);
+
+					const provider = getLocalProvider(msg.agentId, msg.sessionId);
+					if (!provider && !remoteHandlers.has(msg.agentId)) {
+						sendError(ws, msg.sessionId, 'unknown-agent', `Unknown agent: ${msg.agentId}. Available: ${availableAgents().join(', ')}`);
 						return;
 					}
 
-					// Save session for retry
-					sessionStore.set(msg.sessionId, {
-						agentId: msg.agentId,
-						lastContext: msg.context
-					});
-
-					await provider.handleRequest(msg.sessionId, msg.context, createCallbacks(msg.sessionId));
+					// The session (kept for retry) is saved when the request starts, so cancelled ones don't replace it
+					if (provider) {
+						enqueueLocal(msg.requestId, msg.sessionId, provider, (callbacks) =>
+							provider.handleRequest(msg.sessionId, msg.context, callbacks), msg.context);
+					} else {
+						enqueueRemote(msg.requestId, msg.sessionId, msg.agentId, 'run', msg.context, msg.context);
+					}
 					break;
 				}
 
@@ -144,32 +710,76 @@ export async function createRelayServer(options: RelayServerOptions = {}): Promi
 					for (const provider of providerMap.values()) {
 						provider.abort(msg.sessionId);
 					}
+					const remoteAgentId = pendingRemote.get(msg.sessionId);
+					if (remoteAgentId) {
+						invokeRemote(remoteAgentId, 'abort', msg.sessionId);
+						pendingRemote.delete(msg.sessionId);
+						settleRemote(msg.sessionId);
+					}
 					break;
 				}
 
-				case 'agent-undo': {
-					const session = sessionStore.get(msg.sessionId);
-					const provider = session ? providerMap.get(session.agentId) : providerMap.values().next().value;
-					if (provider) {
-						await provider.undo(msg.sessionId, createCallbacks(msg.sessionId));
+				case 'agent-cancel': {
+					queue.cancel(msg.sessionId, msg.requestId);
+					break;
+				}
+
+				case 'agent-subscribe': {
+					// A `since` past the newest message comes from before a relay restart: replay everything
+					const since = msg.since !== undefined && msg.since < nextSeq ? msg.since : 0;
+					const log = (sessionLogs.get(msg.sessionId) ?? []).filter(entry => entry.seq! > since);
+					for (const entry of log) {
+						send(ws, entry);
 					}
+					subscribe(msg.sessionId, ws);
+					const subscribedMsg: AgentSubscribedMessage = {
+						type: 'agent-subscribed',
+						sessionId: msg.sessionId,
+						replayed: log.length
+					};
+					send(ws, subscribedMsg);
 					break;
 				}
 
+				case 'agent-unsubscribe': {
+					sessionSubscribers.get(msg.sessionId)?.delete(ws);
+					dropIdleSession(msg.sessionId);
+					break;
+				}
+
+				case 'agent-undo':
 				case 'agent-redo': {
-					const session = sessionStore.get(msg.sessionId);
-					const provider = session ? providerMap.get(session.agentId) : providerMap.values().next().value;
+					subscribe(msg.sessionId, ws);
+					const direction = msg.type === 'agent-undo' ? 'undo' : 'redo';
+					const agentId = resolveAgentId(msg.sessionId);
+					if (await useCheckpoints()) {
+						queue.enqueue({
+							requestId: msg.requestId ?? randomUUID(),
+							sessionId: msg.sessionId,
+							agentId: agentId ?? '',
+							start: () => restoreCheckpoint(msg.sessionId, direction)
+						});
+						break;
+					}
+					const provider = getLocalProvider(agentId, msg.sessionId);
 					if (provider) {
-						await provider.redo(msg.sessionId, createCallbacks(msg.sessionId));
+						enqueueLocal(msg.requestId, msg.sessionId, provider, (callbacks) =>
+							provider[direction](msg.sessionId, callbacks));
+					} else if (agentId) {
+						enqueueRemote(msg.requestId, msg.sessionId, agentId, direction);
 					}
 					break;
 				}
 
 				case 'agent-resume': {
-					const session = sessionStore.get(msg.sessionId);
-					const provider = session ? providerMap.get(session.agentId) : providerMap.values().next().value;
+					subscribe(msg.sessionId, ws);
+					const agentId = resolveAgentId(msg.sessionId);
+					const provider = getLocalProvider(agentId, msg.sessionId);
 					if (provider) {
-						await provider.resume(msg.sessionId, msg.prompt, createCallbacks(msg.sessionId));
+						enqueueLocal(msg.requestId, msg.sessionId, provider, (callbacks) =>
+							provider.resume(msg.sessionId, msg.prompt, callbacks));
+					} else if (agentId) {
+						enqueueRemote(msg.requestId, msg.sessionId, agentId, 'resume', { prompt: msg.prompt });
 					}
 					break;
 				}
@@ -177,18 +787,17 @@ export async function createRelayServer(options: RelayServerOptions = {}): Promi
 				case 'agent-retry': {
 					const session = sessionStore.get(msg.sessionId);
 					if (!session) {
-						const errMsg: AgentErrorMessage = {
-							type: 'agent-error',
-							sessionId: msg.sessionId,
-							error: 'No previous request to retry for this session'
-						};
-						ws.send(JSON.stringify(errMsg));
+						sendError(ws, msg.sessionId, 'no-session', 'No previous request to retry for this session');
 						break;
 					}
 
-					const provider = providerMap.get(session.agentId);
+					subscribe(msg.sessionId, ws);
+					const provider = getLocalProvider(session.agentId, msg.sessionId);
 					if (provider) {
-						await provider.handleRequest(msg.sessionId, session.lastContext, createCallbacks(msg.sessionId));
+						enqueueLocal(msg.requestId, msg.sessionId, provider, (callbacks) =>
+							provider.handleRequest(msg.sessionId, session.lastContext, callbacks));
+					} else {
+						enqueueRemote(msg.requestId, msg.sessionId, session.agentId, 'run', session.lastContext);
 					}
 					break;
 				}
@@ -196,6 +805,11 @@ export async function createRelayServer(options: RelayServerOptions = {}): Promi
 		});
 
 		ws.on('close', () => {
+			clients.delete(ws);
+			dropHandler(ws);
+			for (const [sessionId, subscribers] of sessionSubscribers) {
+				if (subscribers.delete(ws)) dropIdleSession(sessionId);
+			}
 			console.log('[svelte-grab relay] Client disconnected');
 		});
 	});
@@ -203,6 +817,7 @@ export async function createRelayServer(options: RelayServerOptions = {}): Promi
 	return {
 		close: () => {
 			wss.close();
+			stopListening();
 		}
 	};
 }
@@ -0,0 +1,159 @@
+import { readFileSync, writeFileSync, mkdirSync, renameSync, existsSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import type { ProviderSessionState } from './providers/base.js';
+import type { RelayAgentContext } from './protocol.js';
+
+/**
+ * A relay session: which agent served it, its last request, and the
+ * provider's history/resume token, so retry and resume work after a restart.
+ */
+export interface SessionRecord {
+	sessionId: string;
+	agentId: string;
+	lastContext: RelayAgentContext;
+	/** Provider-side state (see AgentProvider.exportSession). Missing for remote handlers. */
+	provider?: ProviderSessionState;
+	createdAt: number;
+	updatedAt: number;
+}
+
+/**
+ * Storage backend for relay sessions.
+ * Implement this to keep sessions somewhere other than memory or a JSON file.
+ */
+export interface SessionStore {
+	/** Get a session, or undefined when unknown or expired */
+	get(sessionId: string): SessionRecord | undefined;
+	set(record: SessionRecord): void;
+	delete(sessionId: string): boolean;
+	/** All live sessions, most recently updated first */
+	list(): SessionRecord[];
+	/**
+	 * Remove sessions not updated within `maxAge` ms (default: the store's TTL).
+	 * Returns the number of sessions removed.
+	 */
+	prune(maxAge?: number): number;
+}
+
+export interface SessionStoreOptions {
+	/** Sessions idle longer than this (ms) expire. Default: 7 days */
+	ttl?: number;
+}
+
+export interface JsonFileSessionStoreOptions extends SessionStoreOptions {
+	/**
+	 * Drop expired sessions when loading. Only in memory: the file is rewritten
+	 * on the next change. Default: true
+	 */
+	pruneOnLoad?: boolean;
+}
+
+export const DEFAULT_SESSION_TTL = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Default location of the JSON session store for a project.
+ */
+export function defaultSessionsPath(projectRoot: string = process.cwd()): string {
+	return join(projectRoot, '.svelte-grab', 'sessions.json');
+}
+
+/**
+ * In-memory session store. Sessions are lost when the relay stops.
+ */
+export class MemorySessionStore implements SessionStore {
+	protected sessions = new Map<string, SessionRecord>();
+	protected ttl: number;
+
+	constructor(options: SessionStoreOptions = {}) {
+		this.ttl = options.ttl ?? DEFAULT_SESSION_TTL;
+	}
+
+	protected isExpired(record: SessionRecord, maxAge: number = this.ttl): boolean {
+		return Date.now() - record.updatedAt > maxAge;
+	}
+
+	get(sessionId: string): SessionRecord | undefined {
+		const record = this.sessions.get(sessionId);
+		return record && !this.isExpired(record) ? record : undefined;
+	}
+
+	set(record: SessionRecord): void {
+		this.sessions.set(record.sessionId, record);
+	}
+
+	delete(sessionId: string): boolean {
+		return this.sessions.delete(sessionId);
+	}
+
+	list(): SessionRecord[] {
+		return [...this.sessions.values()]
+			.filter(r => !this.isExpired(r))
+			.sort((a, b) => b.updatedAt - a.updatedAt);
+	}
+
+	/** Sessions `prune(maxAge)` would remove, expired ones included */
+	stale(maxAge: number = this.ttl): SessionRecord[] {
+		return [...this.sessions.values()].filter(r => this.isExpired(r, maxAge));
+	}
+
+	prune(maxAge: number = this.ttl): number {
+		const stale = this.stale(maxAge);
+		for (const record of stale) this.sessions.delete(record.sessionId);
+		return stale.length;
+	}
+}
+
+/**
+ * Session store persisted as JSON (default: `.svelte-grab/sessions.json`).
+ * Expired sessions are dropped on load; every change rewrites the file.
+ * Loading never writes, so read-only uses (listing, dry runs) leave the file as is.
+ */
+export class JsonFileSessionStore extends MemorySessionStore {
+	constructor(private filePath: string = defaultSessionsPath(), options: JsonFileSessionStoreOptions = {}) {
+		super(options);
+		this.load();
+		if (options.pruneOnLoad ?? true) super.prune();
+	}
+
+	private load(): void {
+		if (!existsSync(this.filePath)) return;
+		try {
+			const data = JSON.parse(readFileSync(this.filePath, 'utf-8'));
+			for (const record of Array.isArray(data?.sessions) ? data.sessions : []) {
+				if (typeof record?.sessionId === 'string' && typeof record.agentId === 'string') {
+					this.sessions.set(record.sessionId, record);
+				}
+			}
+		} catch (err: any) {
+			console.warn(`[svelte-grab relay] Ignoring unreadable session store ${this.filePath}: ${err?.message ?? err}`);
+		}
+	}
+
+	private save(): void {
+		try {
+			mkdirSync(dirname(this.filePath), { recursive: true });
+			const tmp = `${this.filePath}.tmp`;
+			writeFileSync(tmp, JSON.stringify({ sessions: [...this.sessions.values()] }, null, 2) + '\n', 'utf-8');
+			renameSync(tmp, this.filePath);
+		} catch (err: any) {
+			console.warn(`[svelte-grab relay] Could not save sessions: ${err?.message ?? err}`);
+		}
+	}
+
+	set(record: SessionRecord): void {
+		super.set(record);
+		this.save();
+	}
+
+	delete(sessionId: string): boolean {
+		const removed = super.delete(sessionId);
+		if (removed) this.save();
+		return removed;
+	}
+
+	prune(maxAge?: number): number {
+		const removed = super.prune(maxAge);
+		if (removed > 0) this.save();
+		return removed;
+	}
+}
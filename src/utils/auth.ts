@@ -0,0 +1,83 @@
+import { randomBytes, timingSafeEqual } from 'node:crypto';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+/**
+ * Env file holding the shared secret. Vite exposes VITE_-prefixed variables to
+ * the app, so the browser reads it via import.meta.env and the servers read the file.
+ */
+export const AUTH_ENV_FILE = '.env.local';
+export const AUTH_ENV_VAR = 'VITE_SVELTE_GRAB_TOKEN';
+
+/**
+ * Origins allowed when no allow-list is configured: local dev servers on any port.
+ */
+export const DEFAULT_ALLOWED_ORIGINS = [
+	'http://localhost:*',
+	'https://localhost:*',
+	'http://127.0.0.1:*',
+	'https://127.0.0.1:*',
+	'http://[::1]:*'
+];
+
+/**
+ * Generate a random shared secret for the relay and MCP server.
+ */
+export function generateAuthToken(): string {
+	return randomBytes(24).toString('base64url');
+}
+
+/**
+ * Load the shared secret: SVELTE_GRAB_TOKEN / VITE_SVELTE_GRAB_TOKEN from the
+ * environment, else from `.env.local` in `cwd`. Returns null when none is set.
+ */
+export function loadAuthToken(cwd: string = process.cwd()): string | null {
+	const fromEnv = process.env.SVELTE_GRAB_TOKEN || process.env[AUTH_ENV_VAR];
+	if (fromEnv) return fromEnv;
+
+	const envPath = join(cwd, AUTH_ENV_FILE);
+	if (!existsSync(envPath)) return null;
+
+	const match = new RegExp(`^\\s*${AUTH_ENV_VAR}\\s*=\\s*["']?([^"'\\s]+)`, 'm').exec(readFileSync(envPath, 'utf-8'));
+	return match ? match[1] : null;
+}
+
+/**
+ * Write the shared secret to `.env.local`, replacing any previous value.
+ */
+export function saveAuthToken(token: string, cwd: string = process.cwd()): void {
+	const envPath = join(cwd, AUTH_ENV_FILE);
+	const line = `${AUTH_ENV_VAR}=${token}`;
+	const existing = existsSync(envPath) ? readFileSync(envPath, 'utf-8') : '';
+	const pattern = new RegExp(`^\\s*${AUTH_ENV_VAR}\\s*=.*$`, 'm');
+
+	const content = pattern.test(existing)
+		? existing.replace(pattern, line)
+		: `${existing}${existing && !existing.endsWith('\n') ? '\n' : ''}${line}\n`;
+
+	writeFileSync(envPath, content, 'utf-8');
+}
+
+/**
+ * Compare a presented token with the expected one in constant time.
+ */
+export function isValidToken(presented: string | null | undefined, expected: string): boolean {
+	if (!presented) return false;
+	const a = Buffer.from(presented);
+	const b = Buffer.from(expected);
+	return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Check a request's Origin header against an allow-list.
+ * Entries are exact origins, or use `*` as a wildcard (e.g. `http://localhost:*`).
+ * Requests without an Origin (CLIs, remote handlers, agents) are not browser pages and pass.
+ */
+export function isOriginAllowed(origin: string | undefined, allowList: string[] = DEFAULT_ALLOWED_ORIGINS): boolean {
+	if (!origin) return true;
+	return allowList.some((entry) => {
+		if (entry === '*') return true;
+		const pattern = new RegExp(`^${entry.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*')}$`);
+		return pattern.test(origin);
+	});
+}
@@ -0,0 +1,42 @@
+import { spawn } from 'node:child_process';
+import { existsSync } from 'node:fs';
+import { delimiter, join, resolve as resolvePath } from 'node:path';
+
+/**
+ * Check whether a command can be spawned from PATH.
+ * Runs `<command> --version` and only treats ENOENT as missing.
+ */
+export function isCommandAvailable(command: string): Promise<boolean> {
+	return new Promise((resolve) => {
+		try {
+			const child = spawn(command, ['--version'], { stdio: 'ignore' });
+			child.once('error', (err: NodeJS.ErrnoException) => {
+				resolve(err.code !== 'ENOENT');
+			});
+			child.once('spawn', () => {
+				child.kill();
+				resolve(true);
+			});
+		} catch {
+			resolve(false);
+		}
+	});
+}
+
+/**
+ * Check whether a command resolves to a file, without running it.
+ * Paths (containing a slash) are checked directly, resolved against `cwd`;
+ * bare names are searched for on PATH.
+ */
+export function isCommandOnPath(command: string, cwd: string = process.cwd()): boolean {
+	if (command.includes('/') || command.includes('\\')) {
+		return existsSync(resolvePath(cwd, command));
+	}
+
+	const extensions = process.platform === 'win32'
+		? (process.env.PATHEXT ?? '.EXE;.CMD;.BAT').split(';')
+		: [''];
+	return (process.env.PATH ?? '').split(delimiter).some((dir) =>
+		dir && extensions.some((ext) => existsSync(join(dir, command + ext)))
+	);
+}
@@ -1,10 +1,12 @@
 import { createServer } from 'node:net';
+import { PORT_SEARCH_RANGE } from '../lib/core/discovery.js';
 
 /**
  * Find an available port starting from the preferred port.
  * Tries incrementing ports up to maxAttempts times on EADDRINUSE.
+ * The default matches the range the browser probes to find a moved server.
  */
-export function findAvailablePort(preferred: number, maxAttempts: number = 10): Promise<number> {
+export function findAvailablePort(preferred: number, maxAttempts: number = PORT_SEARCH_RANGE): Promise<number> {
 	return new Promise((resolve, reject) => {
 		let attempt = 0;
 
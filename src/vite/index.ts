@@ -0,0 +1,138 @@
+import type { Plugin, ResolvedConfig } from 'vite';
+import type { SvelteDevKitProps } from '../lib/types.js';
+import type { RelayServerOptions } from '../relay/server.js';
+import { createMcpMiddleware } from '../mcp/server.js';
+import { loadConfig } from '../cli/config.js';
+import { loadProviders, relayOptionsFromConfig, resolveProviderNames } from '../cli/relay.js';
+import { loadAuthToken } from '../utils/auth.js';
+import { stateInstrumentation } from './instrument.js';
+
+/** Path prefix of the endpoints the plugin adds to the dev server */
+export const SVELTE_GRAB_BASE = '/__svelte-grab';
+
+const CLIENT_ID = 'virtual:svelte-grab/client';
+const RESOLVED_CLIENT_ID = `\0${CLIENT_ID}`;
+
+export interface SvelteGrabViteOptions {
+	/** Mount `<SvelteDevKit />` on every page in dev. Turn off when your layout renders it. Default: true */
+	inject?: boolean;
+	/** Props for the injected SvelteDevKit. Must be JSON-serializable (no plugins or callbacks) */
+	devKit?: Partial<SvelteDevKitProps>;
+	/** Host the MCP endpoints on the dev server. `history: false` keeps grab history in memory. Default: true */
+	mcp?: boolean | { history?: boolean };
+	/**
+	 * Host the agent relay on the dev server (requires `ws`). Providers default to
+	 * those saved by `svelte-grab add`, like `svelte-grab relay`. Default: true
+	 */
+	relay?: boolean | Pick<RelayServerOptions, 'providers' | 'maxConcurrency' | 'checkpoints' | 'sessionStore' | 'sessionTtl'>;
+	/**
+	 * Instrument runes-mode components so SvelteStateGrab shows each instance's
+	 * `$props()`, `$state` and `$derived` values. Default: true
+	 */
+	instrument?: boolean;
+}
+
+/**
+ * Module that mounts the dev kit, pointed at the dev server's own endpoints.
+ */
+function clientModule(props: Partial<SvelteDevKitProps>): string {
+	return `import { mount } from 'svelte';
+import { SvelteDevKit } from 'svelte-grab';
+
+const base = location.origin + ${JSON.stringify(SVELTE_GRAB_BASE)};
+
+mount(SvelteDevKit, {
+	target: document.body,
+	props: { mcpUrl: base, agentRelayUrl: base.replace(/^http/, 'ws') + '/relay', ...${JSON.stringify(props)} }
+});
+`;
+}
+
+/**
+ * Vite plugin for svelte-grab, dev server only.
+ *
+ * Mounts the dev kit on every page, and serves the MCP endpoints
+ * (`/__svelte-grab/context`, `/events`, `/mcp`, ...) and the relay
+ * (`/__svelte-grab/relay`) from the dev server itself, so no separate
+ * processes or port props are needed. The project root is the Vite root.
+ * Components are instrumented so their rune state can be inspected.
+ */
+export function svelteGrab(options: SvelteGrabViteOptions = {}): Plugin {
+	const { inject = true, devKit = {}, mcp = true, relay = true, instrument = true } = options;
+
+	let config: ResolvedConfig;
+	let authToken: string | undefined;
+	let relayAttached = false;
+
+	return {
+		name: 'svelte-grab',
+		apply: 'serve',
+
+		// vite-plugin-svelte runs preprocessors that plugins expose here
+		api: {
+			sveltePreprocess: instrument ? stateInstrumentation(() => config?.root ?? process.cwd()) : undefined
+		},
+
+		configResolved(resolved) {
+			config = resolved;
+		},
+
+		async configureServer(server) {
+			const root = config.root;
+			const fileConfig = loadConfig(root);
+			authToken = loadAuthToken(root) ?? undefined;
+
+			if (mcp) {
+				server.middlewares.use(SVELTE_GRAB_BASE, createMcpMiddleware({
+					authToken,
+					allowedOrigins: fileConfig?.allowedOrigins,
+					projectRoot: root,
+					history: typeof mcp === 'object' ? mcp.history : undefined
+				}));
+			}
+
+			// Middleware mode (e.g. a custom server) has no HTTP server to take upgrades from
+			if (relay && server.httpServer) {
+				const relayOptions = typeof relay === 'object' ? relay : {};
+				try {
+					const { createRelayServer } = await import('../relay/index.js');
+					console.log('[svelte-grab] Providers:');
+					const relayServer = await createRelayServer({
+						...relayOptionsFromConfig(fileConfig),
+						...relayOptions,
+						providers: relayOptions.providers ?? await loadProviders(resolveProviderNames(undefined, root), root),
+						projectRoot: root,
+						authToken,
+						server: server.httpServer,
+						path: `${SVELTE_GRAB_BASE}/relay`
+					});
+					server.httpServer.once('close', () => relayServer.close());
+					relayAttached = true;
+				} catch (err: any) {
+					console.warn(`[svelte-grab] Relay not started: ${err?.message ?? err}`);
+				}
+			}
+		},
+
+		resolveId(id) {
+			return id === CLIENT_ID ? RESOLVED_CLIENT_ID : undefined;
+		},
+
+		load(id) {
+			if (id !== RESOLVED_CLIENT_ID) return undefined;
+			return clientModule({
+				projectRoot: config.root,
+				authToken,
+				enableMcp: !!mcp,
+				enableAgentRelay: relayAttached,
+				...devKit
+			});
+		},
+
+		// Every page loads Vite's client in dev (SvelteKit included), so the dev kit rides along with it
+		transform(code, id, transformOptions) {
+			if (!inject || transformOptions?.ssr || !id.includes('vite/dist/client/client.mjs')) return undefined;
+			return { code: `${code}\nimport(${JSON.stringify(CLIENT_ID)});\n`, map: null };
+		}
+	};
+}
@@ -0,0 +1,377 @@
+import { relative } from 'path';
+import { parse, type AST, type PreprocessorGroup } from 'svelte/compiler';
+import type { Expression, Node, Pattern, Super } from 'estree';
+import type { CallSite, InsertedText, PropOrigin, PropSource } from '../lib/utils/rune-state.js';
+
+/** Action the instrumentation puts on a component's top-level elements */
+const TRACK_ACTION = '__svelteGrabTrack';
+
+/** Special elements whose content never holds a component's own top-level elements */
+const SKIPPED_NODES = new Set(['SvelteHead', 'SvelteWindow', 'SvelteDocument', 'SvelteBody', 'SvelteOptions', 'TitleElement']);
+
+type RuneKind = 'props' | 'state' | 'derived';
+
+type TemplateNode = AST.Fragment['nodes'][number];
+
+/** A variable declared by a rune */
+interface Binding {
+	/** Prop name, or the variable name for `$state` / `$derived` */
+	key: string;
+	local: string;
+	/** `...rest` of `$props()`, spread into the props */
+	spread?: boolean;
+	/** Declared with `let`, so the popup can assign it */
+	writable?: boolean;
+}
+
+/** How a top-level name of the parent would originate a prop value it passes */
+type Origins = Map<string, { origin: PropOrigin; from?: string }>;
+
+const RUNES: Record<string, RuneKind> = {
+	'$props': 'props',
+	'$state': 'state',
+	'$state.raw': 'state',
+	'$derived': 'derived',
+	'$derived.by': 'derived'
+};
+
+/**
+ * Svelte preprocessor that registers every component instance with the
+ * rune-state registry (see `src/lib/utils/rune-state.ts`), so SvelteStateGrab
+ * can read its `$props()`, `$state` and `$derived` values and assign the `let`
+ * declared props and `$state`, and SveltePropsTracer can tell what each
+ * `<Child ...>` in the template passes and where those values come from.
+ *
+ * No lines are added before the template's end: the registration goes on the
+ * `</script>` line (or in a script appended to the file) and the action inside
+ * opening tags, so `__svelte_meta` lines stay correct without a sourcemap.
+ * Columns after an action on the same line do shift; the registration lists
+ * where the actions went so `sourceColumn()` can map them back.
+ */
+export function stateInstrumentation(getRoot: () => string): PreprocessorGroup {
+	return {
+		name: 'svelte-grab:state',
+		markup({ content, filename }) {
+			if (!filename || filename.includes('/node_modules/')) return undefined;
+			const code = instrumentComponent(content, relative(getRoot(), filename).replace(/\\/g, '/'));
+			return code === null ? undefined : { code };
+		}
+	};
+}
+
+/**
+ * Add the registration call and the tracking action to a component.
+ * Returns null when there is nothing to register: no runes and no child components.
+ */
+export function instrumentComponent(source: string, file: string): string | null {
+	let ast: AST.Root;
+	try {
+		ast = parse(source, { modern: true });
+	} catch {
+		// Let the compiler report the error on the untouched source
+		return null;
+	}
+
+	const bindings: Record<RuneKind, Binding[]> = { props: [], state: [], derived: [] };
+	const origins: Origins = new Map();
+	for (const script of [ast.module, ast.instance]) {
+		if (script) collectDeclarations(script, script === ast.instance ? bindings : null, origins);
+	}
+
+	const elements: number[] = [];
+	collectElements(ast.fragment, elements);
+	const components: AST.Component[] = [];
+	collectComponents(ast.fragment, components);
+	if (bindings.props.length + bindings.state.length + bindings.derived.length + components.length === 0) return null;
+
+	const actionText = ` use:${TRACK_ACTION}`;
+	const callSites: Record<string, CallSite> = {};
+	for (const node of components) {
+		const { line, column } = position(source, node.start);
+		callSites[`${line}:${column}`] = { component: node.name, props: passedProps(node, origins, source) };
+	}
+
+	// Where the actions land in the columns the compiler sees, after the ones added earlier on their line
+	const inserted: InsertedText = {};
+	for (const at of [...elements].sort((a, b) => a - b)) {
+		const { line, column } = position(source, at);
+		const before = (inserted[line] ??= []);
+		before.push([column + before.length * actionText.length, actionText.length]);
+	}
+
+	const values = (list: Binding[]) => `{ ${list.map(b => (b.spread ? `...${b.local}` : `${JSON.stringify(b.key)}: ${b.local}`)).join(', ')} }`;
+	const setters = (list: Binding[]) => `{ ${list.filter(b => b.writable).map(b => `${JSON.stringify(b.key)}: (v) => (${b.local} = v)`).join(', ')} }`;
+	const registration = `;import { trackComponentState as __svelteGrabTrackState } from 'svelte-grab';` +
+		`const ${TRACK_ACTION} = __svelteGrabTrackState(${JSON.stringify(file)}, () => ({ ` +
+		`props: ${values(bindings.props)}, state: ${values(bindings.state)}, derived: ${values(bindings.derived)} }), ` +
+		`{ props: ${setters(bindings.props)}, state: ${setters(bindings.state)} }, ${JSON.stringify(callSites)}, ${JSON.stringify(inserted)});`;
+
+	// Splice from the end so earlier offsets stay valid
+	const inserts = [
+		ast.instance
+			? { at: source.lastIndexOf('</script', ast.instance.end), text: registration }
+			: { at: source.length, text: `\n<script>${registration}</script>\n` },
+		...elements.map(at => ({ at, text: actionText }))
+	].sort((a, b) => b.at - a.at);
+
+	let code = source;
+	for (const { at, text } of inserts) {
+		code = code.slice(0, at) + text + code.slice(at);
+	}
+	return code;
+}
+
+/**
+ * Rune bindings of the instance script (when `bindings` is given), and the
+ * prop origin of every top-level name.
+ */
+function collectDeclarations(script: AST.Script, bindings: Record<RuneKind, Binding[]> | null, origins: Origins): void {
+	for (const statement of script.content.body) {
+		if (statement.type === 'ImportDeclaration') {
+			for (const specifier of statement.specifiers) origins.set(specifier.local.name, { origin: 'import' });
+			continue;
+		}
+
+		const declaration = statement.type === 'ExportNamedDeclaration' ? statement.declaration : statement;
+		if (declaration?.type !== 'VariableDeclaration') continue;
+
+		// Legacy `export let` / `export var` props of the instance script. `export const`
+		// and module script exports are not props; they are read like other declarations
+		const exported = declaration !== statement;
+		if (exported && bindings && (declaration.kind === 'let' || declaration.kind === 'var')) {
+			for (const declarator of declaration.declarations) {
+				for (const name of patternNames(declarator.id)) origins.set(name, { origin: 'prop', from: name });
+			}
+			continue;
+		}
+
+		const writable = declaration.kind === 'let';
+		for (const declarator of declaration.declarations) {
+			const callee = declarator.init?.type === 'CallExpression' ? calleeName(declarator.init.callee) : '';
+			const kind = RUNES[callee];
+
+			if (kind === 'props') {
+				// `let props = $props()` and `...rest` hold several props
+				const whole = declarator.id.type !== 'ObjectPattern';
+				for (const b of propBindings(declarator.id)) origins.set(b.local, { origin: 'prop', from: whole || b.spread ? undefined : b.key });
+			} else {
+				const origin: PropOrigin = kind ?? (callee === 'getContext' ? 'context' : 'expression');
+				for (const name of patternNames(declarator.id)) origins.set(name, { origin });
+			}
+
+			if (!kind || !bindings) continue;
+			const found: Binding[] = kind === 'props' ? propBindings(declarator.id) : patternNames(declarator.id).map(name => ({ key: name, local: name }));
+			// Deriveds are read-only here even when declared with `let`
+			bindings[kind].push(...found.map(b => ({ ...b, writable: writable && kind !== 'derived' && !b.spread })));
+		}
+	}
+}
+
+/**
+ * Where each prop passed to a component tag comes from, by prop name
+ * (`...expression` for spreads).
+ */
+function passedProps(node: AST.Component, origins: Origins, source: string): Record<string, PropSource> {
+	const props: Record<string, PropSource> = {};
+
+	for (const attribute of node.attributes) {
+		if (attribute.type === 'SpreadAttribute') {
+			const text = sourceOf(source, attribute.expression);
+			props[`...${text}`] = { ...classify([attribute.expression], text, origins), spread: true };
+		} else if (attribute.type === 'BindDirective') {
+			const text = sourceOf(source, attribute.expression);
+			props[attribute.name] = { ...classify([attribute.expression], text, origins), bound: true };
+		} else if (attribute.type === 'Attribute') {
+			const value = attribute.value;
+			if (value === true) {
+				props[attribute.name] = { origin: 'literal', expression: 'true' };
+			} else if (!Array.isArray(value)) {
+				props[attribute.name] = classify([value.expression], sourceOf(source, value.expression), origins);
+			} else if (value.length > 0) {
+				// Quoted values: plain text, or a template like "btn {size}"
+				const text = JSON.stringify(source.slice(value[0].start, value[value.length - 1].end));
+				const expressions = value.flatMap(part => (part.type === 'ExpressionTag' ? [part.expression] : []));
+				props[attribute.name] = classify(expressions, text, origins);
+			}
+		}
+	}
+
+	return props;
+}
+
+/**
+ * Origin of a value computed from `expressions`: a literal when they reference
+ * nothing, else the origin shared by the parent's names they reference.
+ * Mixed origins, callbacks and names the parent doesn't declare at top level
+ * (each-block items, snippet params, globals) count as `expression`.
+ */
+function classify(expressions: Expression[], text: string, origins: Origins): PropSource {
+	if (expressions.some(e => e.type === 'ArrowFunctionExpression' || e.type === 'FunctionExpression')) {
+		return { origin: 'expression', expression: text };
+	}
+
+	const names = expressions.flatMap(e => referencedNames(e));
+	if (names.length === 0) return { origin: 'literal', expression: text };
+
+	const found = names.flatMap(name => {
+		const declared = origins.get(name);
+		if (declared) return [declared];
+		// `$store` auto-subscriptions
+		if (name.startsWith('$') && origins.has(name.slice(1))) return [{ origin: 'store' as const }];
+		return [];
+	});
+	const kinds = new Set(found.map(f => f.origin));
+	if (kinds.size !== 1) return { origin: 'expression', expression: text };
+
+	const origin = found[0].origin;
+	const from = new Set(found.map(f => f.from));
+	return origin === 'prop' && from.size === 1 && found[0].from
+		? { origin, expression: text, from: found[0].from }
+		: { origin, expression: text };
+}
+
+/**
+ * Free identifiers an expression reads, skipping property keys, type
+ * annotations and function bodies.
+ */
+function referencedNames(node: Node, names: string[] = []): string[] {
+	switch (node.type) {
+		case 'Identifier':
+			names.push(node.name);
+			return names;
+		case 'MemberExpression':
+			referencedNames(node.object, names);
+			if (node.computed) referencedNames(node.property, names);
+			return names;
+		case 'Property':
+			if (node.computed) referencedNames(node.key, names);
+			referencedNames(node.value, names);
+			return names;
+		case 'ArrowFunctionExpression':
+		case 'FunctionExpression':
+			return names;
+	}
+
+	for (const [key, value] of Object.entries(node)) {
+		if (key.startsWith('type') || key === 'loc' || key === 'metadata' || key.endsWith('Comments')) continue;
+		for (const child of Array.isArray(value) ? value : [value]) {
+			if (isNode(child)) referencedNames(child, names);
+		}
+	}
+	return names;
+}
+
+function isNode(value: unknown): value is Node {
+	return typeof value === 'object' && value !== null && typeof (value as { type?: unknown }).type === 'string';
+}
+
+/** Source text of an expression. Svelte's parser adds offsets to the estree nodes it returns */
+function sourceOf(source: string, node: Node): string {
+	const { start, end } = node as Node & { start: number; end: number };
+	return source.slice(start, end);
+}
+
+/** 1-based line and 0-based column, as in Svelte's dev stack */
+function position(source: string, offset: number): { line: number; column: number } {
+	const before = source.slice(0, offset);
+	return { line: before.split('\n').length, column: offset - (before.lastIndexOf('\n') + 1) };
+}
+
+function calleeName(callee: Expression | Super): string {
+	if (callee.type === 'Identifier') return callee.name;
+	if (callee.type === 'MemberExpression' && callee.object.type === 'Identifier' && callee.property.type === 'Identifier') {
+		return `${callee.object.name}.${callee.property.name}`;
+	}
+	return '';
+}
+
+/**
+ * `$props()` bindings keyed by prop name, e.g. `{ count: initial = 1, ...rest }` → count (as initial), ...rest.
+ */
+function propBindings(pattern: Pattern): Binding[] {
+	if (pattern.type !== 'ObjectPattern') return patternNames(pattern).map(name => ({ key: name, local: name }));
+
+	return pattern.properties.flatMap((p): Binding[] => {
+		if (p.type === 'RestElement') {
+			return p.argument.type === 'Identifier' ? [{ key: p.argument.name, local: p.argument.name, spread: true }] : [];
+		}
+		const local = p.value.type === 'AssignmentPattern' ? p.value.left : p.value;
+		const key = p.computed ? null : p.key.type === 'Identifier' ? p.key.name : p.key.type === 'Literal' ? String(p.key.value) : null;
+		if (local.type !== 'Identifier' || key === null) return patternNames(p.value).map(name => ({ key: name, local: name }));
+		return [{ key, local: local.name }];
+	});
+}
+
+/**
+ * Variable names bound by a declaration pattern, e.g. `{ a, b: c = 1, ...rest }` → a, c, rest.
+ */
+function patternNames(pattern: Pattern): string[] {
+	switch (pattern.type) {
+		case 'Identifier':
+			return [pattern.name];
+		case 'ObjectPattern':
+			return pattern.properties.flatMap(p => patternNames(p.type === 'RestElement' ? p.argument : p.value));
+		case 'ArrayPattern':
+			return pattern.elements.flatMap(e => (e ? patternNames(e) : []));
+		case 'RestElement':
+			return patternNames(pattern.argument);
+		case 'AssignmentPattern':
+			return patternNames(pattern.left);
+		default:
+			return [];
+	}
+}
+
+/**
+ * Offsets right after the tag name of the component's top-level elements,
+ * looking through blocks, snippets and component children but not into elements.
+ */
+function collectElements(fragment: AST.Fragment, offsets: number[]): void {
+	for (const node of fragment.nodes) {
+		if (SKIPPED_NODES.has(node.type)) continue;
+
+		if (node.type === 'RegularElement' || node.type === 'SvelteElement') {
+			offsets.push(node.start + 1 + node.name.length);
+			continue;
+		}
+
+		for (const child of childFragments(node)) collectElements(child, offsets);
+	}
+}
+
+/**
+ * Every component tag in the template, inside elements too.
+ */
+function collectComponents(fragment: AST.Fragment, components: AST.Component[]): void {
+	for (const node of fragment.nodes) {
+		if (node.type === 'Component') components.push(node);
+		for (const child of childFragments(node)) collectComponents(child, components);
+	}
+}
+
+/**
+ * Fragments nested in a template node: block branches, snippet bodies and element children.
+ */
+function childFragments(node: TemplateNode): AST.Fragment[] {
+	let fragments: (AST.Fragment | null | undefined)[];
+	switch (node.type) {
+		case 'IfBlock':
+			fragments = [node.consequent, node.alternate];
+			break;
+		case 'EachBlock':
+			fragments = [node.body, node.fallback];
+			break;
+		case 'AwaitBlock':
+			fragments = [node.pending, node.then, node.catch];
+			break;
+		case 'KeyBlock':
+			fragments = [node.fragment];
+			break;
+		case 'SnippetBlock':
+			fragments = [node.body];
+			break;
+		default:
+			fragments = 'fragment' in node ? [node.fragment] : [];
+	}
+	return fragments.filter((f): f is AST.Fragment => !!f);
+}
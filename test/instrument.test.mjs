@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { instrumentComponent } from '../dist/vite/instrument.js';
+
+/** Call sites and inserted text the instrumentation registered */
+function registration(code) {
+	const match = /(\{"\d+:\d+".*\}), (\{[^{}]*\})\);/.exec(code);
+	assert.ok(match, 'no call sites registered');
+	return { sites: JSON.parse(match[1]), inserted: JSON.parse(match[2]) };
+}
+
+/** Source column of a compiled `line:column`, as `sourceColumn()` maps it */
+function sourceColumn(inserted, line, column) {
+	return (inserted[line] ?? []).reduce((source, [at, length]) => (column >= at + length ? source - length : source), column);
+}
+
+test('only instance-script `export let` is a prop origin', () => {
+	const code = instrumentComponent(`<script module>
+	export const LIMIT = 5;
+</script>
+
+<script>
+	import Child from './Child.svelte';
+	export let value;
+	export const label = 'x';
+</script>
+
+<Child max={LIMIT} {value} {label} />
+`, 'src/A.svelte');
+
+	const { props } = registration(code).sites['11:0'];
+	assert.deepEqual(props.value, { origin: 'prop', expression: 'value', from: 'value' });
+	assert.equal(props.max.origin, 'expression');
+	assert.equal(props.label.origin, 'expression');
+});
+
+test('columns after an action on the same line map back to the source', () => {
+	const line = '<span>{n}</span><b>x</b><Child {n} />';
+	const code = instrumentComponent(`<script>
+	import Child from './Child.svelte';
+	let n = $state(0);
+</script>
+
+${line}
+`, 'src/A.svelte');
+
+	const { sites, inserted } = registration(code);
+	const compiled = code.split('\n')[5];
+	assert.equal(compiled, '<span use:__svelteGrabTrack>{n}</span><b use:__svelteGrabTrack>x</b><Child {n} />');
+	for (const tag of ['<span', '<b', '<Child']) {
+		assert.equal(sourceColumn(inserted, 6, compiled.indexOf(tag)), line.indexOf(tag), tag);
+	}
+	assert.equal(sites[`6:${line.indexOf('<Child')}`]?.component, 'Child');
+});
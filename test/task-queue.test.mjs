@@ -0,0 +1,16 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TaskQueue } from '../dist/mcp/task-queue.js';
+
+test('a full queue drops its oldest pending task', () => {
+	const dropped = [];
+	const queue = new TaskQueue(() => {}, context => dropped.push(context));
+	for (let i = 1; i <= 51; i++) {
+		queue.add({ id: `session-${i}`, project: 'app', prompt: 'fix', label: 'div', createdAt: i }, { id: `session-${i}` });
+	}
+
+	assert.equal(queue.pendingCount(), 50);
+	assert.deepEqual(dropped, [{ id: 'session-1' }]);
+	assert.equal(queue.get('session-1'), undefined);
+	assert.equal(queue.claimNext()?.task.id, 'session-2');
+});